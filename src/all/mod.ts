@@ -18,3 +18,4 @@ export * from "../hash/mod.ts";
 export * from "../collation/mod.ts";
 export * from "../compare/mod.ts";
 export * from "../idna/mod.ts";
+export * from "../conformance/mod.ts";
@@ -0,0 +1,51 @@
+import {
+  type ConcordanceOptions,
+  type ConcordanceResult,
+  buildConcordance,
+} from "../compare/concordance.ts";
+import type { TextInput } from "../core/types.ts";
+import type { UcaOptions } from "./types.ts";
+import { normalizeUcaOptions, ucaSortKeyBytes } from "./uca.ts";
+
+/**
+ * UcaConcordanceOptions defines an exported structural contract.
+ * `collation` configures the UCA sort keys of the `left`/`right` context sorts.
+ */
+export interface UcaConcordanceOptions extends ConcordanceOptions {
+  collation?: UcaOptions;
+}
+
+function compareKeys(leftKey: Uint8Array, rightKey: Uint8Array): number {
+  const length = Math.min(leftKey.length, rightKey.length);
+  for (let byte = 0; byte < length; byte += 1) {
+    const diff = (leftKey[byte] ?? 0) - (rightKey[byte] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return leftKey.length - rightKey.length;
+}
+
+/**
+ * `concordance` whose `left`/`right` sorts order context tokens under UCA.
+ * Lines and spans are identical to `concordance`; only the context order differs.
+ * Units: UTF-16 code units.
+ */
+export function ucaConcordance(
+  input: TextInput,
+  query: string,
+  options: UcaConcordanceOptions = {},
+): ConcordanceResult {
+  const collation = normalizeUcaOptions(options.collation);
+  const sortKeys = new Map<string, Uint8Array>();
+  const sortKey = (token: string): Uint8Array => {
+    let key = sortKeys.get(token);
+    if (key === undefined) {
+      key = ucaSortKeyBytes(token, collation);
+      sortKeys.set(token, key);
+    }
+    return key;
+  };
+  return buildConcordance(input, query, options, {
+    config: { collation },
+    compare: (left, right) => compareKeys(sortKey(left), sortKey(right)),
+  });
+}
@@ -5,6 +5,8 @@ export {
   ucaStableSort,
   ucaFoldKey,
 } from "./uca.ts";
+export { ucaConcordance } from "./concordance.ts";
+export type { UcaConcordanceOptions } from "./concordance.ts";
 export type {
   UcaOptions,
   UcaFoldOptions,
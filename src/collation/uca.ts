@@ -1,7 +1,7 @@
 import { TextfactsError } from "../core/error.ts";
 import { isWellFormedUnicode, toWellFormedUnicode } from "../integrity/integrity.ts";
 import { CCC_RANGES } from "../normalize/generated/ccc.ts";
-import { normalize } from "../normalize/normalize.ts";
+import { isFCD, isNormalized, normalize } from "../normalize/normalize.ts";
 import { lookupProperty } from "../unicode/lookup.ts";
 import {
   DUCET_CONTRACTION_EDGE_CHILD,
@@ -47,12 +47,16 @@ const DEFAULT_ILL_FORMED: UcaIllFormed = "replace";
 
 const TERTIARY_FLAG_VARIABLE = 0x8000;
 
+let contractionCodePoints: Set<number> | null = null;
+const fcdDecompositionCache = new Map<number, string | null>();
+const canonicalDecompositionCache = new Map<number, readonly number[] | null>();
+
 interface CollationWeights {
   primary: number[];
   secondary: number[];
   tertiary: number[];
   quaternary: number[];
-  codepoints: number[];
+  codepoints: () => number[];
 }
 
 function binarySearch(array: Uint32Array, value: number): number {
@@ -250,11 +254,90 @@ function implicitWeights(cp: number): [number, number] {
   return [primaryA, primaryB];
 }
 
+interface PreparedText {
+  text: string;
+  /** `text` is FCD rather than NFD; the identical level decomposes what remains. */
+  fcd?: boolean;
+}
+
+/**
+ * Decomposition a code point still needs in FCD text, or null when DUCET already maps it
+ * like its decomposition. Hangul syllables have no DUCET entries, and characters whose
+ * decomposition takes part in a contraction can match across their boundaries.
+ */
+function fcdDecomposition(codePoint: number): string | null {
+  const cached = fcdDecompositionCache.get(codePoint);
+  if (cached !== undefined) return cached;
+  contractionCodePoints ??= new Set(DUCET_CONTRACTION_EDGE_CODEPOINT);
+  const contractions = contractionCodePoints;
+  const char = String.fromCodePoint(codePoint);
+  const decomposed = normalize(char, "NFD");
+  const hangul = codePoint >= 0xac00 && codePoint <= 0xd7a3;
+  const needed =
+    decomposed !== char &&
+    (hangul || Array.from(decomposed).some((part) => contractions.has(part.codePointAt(0) ?? 0)));
+  const result = needed ? decomposed : null;
+  fcdDecompositionCache.set(codePoint, result);
+  return result;
+}
+
+/** Full canonical decomposition of a code point, or null when it has none. */
+function canonicalDecomposition(codePoint: number): readonly number[] | null {
+  const cached = canonicalDecompositionCache.get(codePoint);
+  if (cached !== undefined) return cached;
+  const char = String.fromCodePoint(codePoint);
+  const decomposed = normalize(char, "NFD");
+  const result =
+    decomposed === char ? null : Array.from(decomposed, (part) => part.codePointAt(0) ?? 0);
+  canonicalDecompositionCache.set(codePoint, result);
+  return result;
+}
+
+/**
+ * NFD code points of FCD text after `decomposeForCollation`. FCD means the concatenated
+ * decompositions are already in canonical order, so decomposing each code point suffices.
+ */
+function identicalCodePoints(codepoints: number[]): number[] {
+  const out: number[] = [];
+  for (const cp of codepoints) {
+    // Nothing below U+00C0 decomposes.
+    const decomposition = cp < 0xc0 ? null : canonicalDecomposition(cp);
+    if (decomposition === null) {
+      out.push(cp);
+    } else {
+      out.push(...decomposition);
+    }
+  }
+  return out;
+}
+
+function decomposeForCollation(text: string): string {
+  let out = "";
+  let copied = 0;
+  for (let i = 0; i < text.length; ) {
+    const codePoint = text.codePointAt(i) ?? 0;
+    const next = i + (codePoint > 0xffff ? 2 : 1);
+    // Nothing below U+00C0 decomposes.
+    const decomposition = codePoint < 0xc0 ? null : fcdDecomposition(codePoint);
+    if (decomposition !== null) {
+      out += text.slice(copied, i) + decomposition;
+      copied = next;
+    }
+    i = next;
+  }
+  return copied === 0 ? text : out + text.slice(copied);
+}
+
+/**
+ * With `nfd`, FCD text (UTN #5) skips full normalization: only code points that DUCET does
+ * not already map like their decomposition are decomposed. The identical level still uses
+ * NFD code points, decomposing the rest of the prepared text.
+ */
 function prepareText(
   text: string,
   normalization: UcaNormalization,
   illFormed: UcaIllFormed,
-): string {
+): PreparedText {
   if (illFormed === "error" && !isWellFormedUnicode(text)) {
     throw new TextfactsError("COLLATION_ILL_FORMED", "Ill-formed Unicode input");
   }
@@ -264,11 +347,15 @@ function prepareText(
   }
   if (normalization === "nfd") {
     if (illFormed === "implicit" && !isWellFormedUnicode(normalizedText)) {
-      return normalizedText;
+      return { text: normalizedText };
+    }
+    if (isNormalized(normalizedText, "NFD")) return { text: normalizedText };
+    if (isFCD(normalizedText)) {
+      return { text: decomposeForCollation(normalizedText), fcd: true };
     }
     normalizedText = normalize(normalizedText, "NFD");
   }
-  return normalizedText;
+  return { text: normalizedText };
 }
 
 function stringToCodePoints(text: string, illFormed: UcaIllFormed): number[] {
@@ -314,7 +401,7 @@ function stringToCodePoints(text: string, illFormed: UcaIllFormed): number[] {
 
 function buildWeights(text: string, options: Required<UcaOptions>): CollationWeights {
   const prepared = prepareText(text, options.normalization, options.illFormed);
-  const codepoints = stringToCodePoints(prepared, options.illFormed);
+  const codepoints = stringToCodePoints(prepared.text, options.illFormed);
   const cccs = codepoints.map((cp) => getCombiningClass(cp));
   const primary: number[] = [];
   const secondary: number[] = [];
@@ -376,7 +463,13 @@ function buildWeights(text: string, options: Required<UcaOptions>): CollationWei
     consumed[i] = 1;
   }
 
-  return { primary, secondary, tertiary, quaternary, codepoints };
+  return {
+    primary,
+    secondary,
+    tertiary,
+    quaternary,
+    codepoints: () => (prepared.fcd ? identicalCodePoints(codepoints) : codepoints),
+  };
 }
 
 function encodeLevel(weights: number[], out: number[]): void {
@@ -403,7 +496,7 @@ function buildSortKey(text: string, options: Required<UcaOptions>): Uint8Array {
     encodeLevel(weights.quaternary, out);
   }
   if (options.includeIdenticalLevel) {
-    encodeIdentical(weights.codepoints, out);
+    encodeIdentical(weights.codepoints(), out);
   }
   return Uint8Array.from(out);
 }
@@ -419,7 +512,10 @@ function compareBytes(a: Uint8Array, b: Uint8Array): -1 | 0 | 1 {
   return a.length < b.length ? -1 : 1;
 }
 
-function normalizeOptions(options?: UcaOptions): Required<UcaOptions> {
+/**
+ * UCA options with every default filled in, as sort keys and provenance use them.
+ */
+export function normalizeUcaOptions(options?: UcaOptions): Required<UcaOptions> {
   const strength = options?.strength ?? DEFAULT_STRENGTH;
   return {
     strength: Math.min(4, Math.max(1, strength)) as UcaStrength,
@@ -435,7 +531,7 @@ function normalizeOptions(options?: UcaOptions): Required<UcaOptions> {
  * Units: bytes (binary).
  */
 export function ucaSortKeyBytes(text: string, options?: UcaOptions): Uint8Array {
-  return buildSortKey(text, normalizeOptions(options));
+  return buildSortKey(text, normalizeUcaOptions(options));
 }
 
 /**
@@ -454,7 +550,7 @@ export function ucaSortKeyHex(text: string, options?: UcaOptions): string {
  * ucaCompare executes a deterministic operation in this module.
  */
 export function ucaCompare(a: string, b: string, options?: UcaOptions): -1 | 0 | 1 {
-  const opts = normalizeOptions(options);
+  const opts = normalizeUcaOptions(options);
   const keyA = buildSortKey(a, opts);
   const keyB = buildSortKey(b, opts);
   return compareBytes(keyA, keyB);
@@ -464,7 +560,7 @@ export function ucaCompare(a: string, b: string, options?: UcaOptions): -1 | 0 |
  * ucaStableSort executes a deterministic operation in this module.
  */
 export function ucaStableSort(strings: readonly string[], options?: UcaOptions): string[] {
-  const opts = normalizeOptions(options);
+  const opts = normalizeUcaOptions(options);
   const entries = strings.map((value, index) => ({
     value,
     index,
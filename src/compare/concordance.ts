@@ -0,0 +1,207 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { Provenance, Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { coarseWordSegmentStatus } from "../segment/word-class.ts";
+import { type WordTailoring, normalizeWordTailorings } from "../segment/word.ts";
+import {
+  type CanonicalKeyId,
+  type Token,
+  type TokenizerId,
+  tokenizeForComparison,
+} from "./tokens.ts";
+
+/**
+ * ConcordanceSort orders concordance lines.
+ * - `position`: by hit offset.
+ * - `left`: by left context, nearest token first (classic KWIC left sort).
+ * - `right`: by right context, nearest token first.
+ * `concordance` compares context tokens by code point and `ucaConcordance`
+ * (`textfacts/collation`) under UCA. Context ties fall back to position.
+ */
+export type ConcordanceSort = "position" | "left" | "right";
+
+/**
+ * ConcordanceOptions defines an exported structural contract.
+ * `window` counts non-whitespace tokens on each side of the hit.
+ */
+export interface ConcordanceOptions {
+  window?: number;
+  tokenizer?: TokenizerId;
+  canonicalKey?: CanonicalKeyId;
+  sortBy?: ConcordanceSort;
+  wordTailorings?: WordTailoring[];
+}
+
+/**
+ * ConcordanceLine defines an exported structural contract.
+ * `left` ends where `hit` starts and `right` starts where `hit` ends; either may be empty.
+ * `tokenIndex` counts non-whitespace tokens before the hit.
+ */
+export interface ConcordanceLine {
+  hit: Span;
+  left: Span;
+  right: Span;
+  tokenIndex: number;
+}
+
+/**
+ * ConcordanceResult defines an exported structural contract.
+ */
+export interface ConcordanceResult {
+  lines: ConcordanceLine[];
+  provenance: Provenance;
+}
+
+const DEFAULT_WINDOW = 5;
+const CONCORDANCE_SPEC = "textfacts:concordance";
+const CONCORDANCE_REVISION = "Unicode 17.0.0";
+
+/**
+ * ConcordanceContextOrder compares context tokens for the `left`/`right` sorts;
+ * `config` joins the provenance options of those sorts.
+ */
+export interface ConcordanceContextOrder {
+  config: Record<string, unknown>;
+  compare: (left: string, right: string) => number;
+}
+
+function compareContexts(
+  leftTokens: readonly string[],
+  rightTokens: readonly string[],
+  compare: (left: string, right: string) => number,
+): number {
+  const count = Math.min(leftTokens.length, rightTokens.length);
+  for (let index = 0; index < count; index += 1) {
+    const diff = compare(leftTokens[index] ?? "", rightTokens[index] ?? "");
+    if (diff !== 0) return diff;
+  }
+  return leftTokens.length - rightTokens.length;
+}
+
+function contentTokens(
+  text: string,
+  tokenizer: TokenizerId,
+  canonicalKey: CanonicalKeyId,
+  wordTailorings: WordTailoring[],
+): Token[] {
+  return tokenizeForComparison(text, {
+    tokenizer,
+    canonicalKey,
+    materialize: "raw+key",
+    wordTailorings,
+  }).filter((token) => coarseWordSegmentStatus(token.raw ?? "") !== "whitespace");
+}
+
+/**
+ * Shared body of `concordance` and `ucaConcordance`; only the context order differs.
+ */
+export function buildConcordance(
+  input: TextInput,
+  query: string,
+  options: ConcordanceOptions,
+  contextOrder: ConcordanceContextOrder,
+): ConcordanceResult {
+  const wordTailorings = normalizeWordTailorings(options.wordTailorings);
+  const sortBy = options.sortBy ?? "position";
+  const normalizedOptions = {
+    window: Math.max(0, Math.floor(options.window ?? DEFAULT_WINDOW)),
+    tokenizer: options.tokenizer ?? "uax29-word",
+    canonicalKey: options.canonicalKey ?? "raw",
+    sortBy,
+    ...(sortBy !== "position" ? contextOrder.config : {}),
+    ...(wordTailorings.length > 0 ? { wordTailorings } : {}),
+  };
+  const { tokenizer, canonicalKey, window } = normalizedOptions;
+  const queryKeys = contentTokens(query, tokenizer, canonicalKey, wordTailorings).map(
+    (token) => token.key ?? "",
+  );
+  if (queryKeys.length === 0) {
+    throw new RangeError("Concordance query must contain at least one non-whitespace token");
+  }
+
+  const { text } = normalizeInput(input);
+  const tokens = contentTokens(text, tokenizer, canonicalKey, wordTailorings);
+  const lines: ConcordanceLine[] = [];
+  for (let index = 0; index + queryKeys.length <= tokens.length; index += 1) {
+    let matched = true;
+    for (let offset = 0; offset < queryKeys.length; offset += 1) {
+      if (tokens[index + offset]?.key !== queryKeys[offset]) {
+        matched = false;
+        break;
+      }
+    }
+    if (!matched) continue;
+    const last = index + queryKeys.length - 1;
+    const hit = {
+      startCU: tokens[index]?.span.startCU ?? 0,
+      endCU: tokens[last]?.span.endCU ?? 0,
+    };
+    const leftToken = tokens[Math.max(0, index - window)];
+    const rightToken = tokens[Math.min(tokens.length - 1, last + window)];
+    lines.push({
+      hit,
+      left: { startCU: leftToken?.span.startCU ?? hit.startCU, endCU: hit.startCU },
+      right: { startCU: hit.endCU, endCU: rightToken?.span.endCU ?? hit.endCU },
+      tokenIndex: index,
+    });
+  }
+
+  if (sortBy !== "position") {
+    const contexts = new Map<ConcordanceLine, string[]>();
+    for (const line of lines) {
+      const last = line.tokenIndex + queryKeys.length - 1;
+      const context =
+        sortBy === "left"
+          ? tokens.slice(Math.max(0, line.tokenIndex - window), line.tokenIndex).reverse()
+          : tokens.slice(last + 1, last + 1 + window);
+      contexts.set(
+        line,
+        context.map((token) => token.raw ?? ""),
+      );
+    }
+    lines.sort(
+      (a, b) =>
+        compareContexts(contexts.get(a) ?? [], contexts.get(b) ?? [], contextOrder.compare) ||
+        a.hit.startCU - b.hit.startCU,
+    );
+  }
+
+  return {
+    lines,
+    provenance: createProvenance(
+      {
+        name: "Facts.Concordance",
+        spec: CONCORDANCE_SPEC,
+        revisionOrDate: CONCORDANCE_REVISION,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      normalizedOptions,
+      {
+        text: "utf16-code-unit",
+        token: tokenizer === "codePoint" ? "unicode-code-point" : tokenizer,
+      },
+    ),
+  };
+}
+
+/**
+ * Keyword-in-context lines for every occurrence of `query`.
+ * Query and text are tokenized alike and matched on canonical keys, as in
+ * `tokenizeForComparison`; whitespace-only tokens are skipped on both sides, so a
+ * multi-token query matches across any run of whitespace. Overlapping hits are all reported.
+ * Context sorts compare raw tokens by code point.
+ * A query without content tokens throws a RangeError.
+ * Units: UTF-16 code units.
+ */
+export function concordance(
+  input: TextInput,
+  query: string,
+  options: ConcordanceOptions = {},
+): ConcordanceResult {
+  return buildConcordance(input, query, options, {
+    config: { contextOrder: "codePoint" },
+    compare: compareByCodePoint,
+  });
+}
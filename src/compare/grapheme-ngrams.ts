@@ -0,0 +1,27 @@
+import type { TextInput } from "../core/types.ts";
+import type { GraphemeNgramOptions, GraphemeNgramResult } from "../facts/grapheme.ts";
+import { countGraphemeNgrams } from "../facts/internal.ts";
+import { type CanonicalKeyId, canonicalize } from "./tokens.ts";
+
+/**
+ * CanonicalGraphemeNgramOptions defines an exported structural contract.
+ */
+export interface CanonicalGraphemeNgramOptions extends GraphemeNgramOptions {
+  canonicalKey?: CanonicalKeyId;
+}
+
+/**
+ * `graphemeNgrams` counted by canonical key: `graphemes` holds each cluster's
+ * `canonicalize` key and `firstSpan` the first raw occurrence. With `raw` keys the
+ * result and provenance equal `graphemeNgrams`.
+ * Units: UTF-16 code units.
+ */
+export function canonicalGraphemeNgrams(
+  input: TextInput,
+  options: CanonicalGraphemeNgramOptions,
+): GraphemeNgramResult {
+  const canonicalKey = options.canonicalKey ?? "raw";
+  return countGraphemeNgrams(input, options, canonicalKey, (raw) =>
+    canonicalKey === "raw" ? raw : canonicalize(raw, canonicalKey),
+  );
+}
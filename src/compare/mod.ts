@@ -1,6 +1,15 @@
 export type { Token, TokenizerId, CanonicalKeyId, TokenizeOptions, Materialize } from "./tokens.ts";
 export { iterTokenSpans } from "./tokens.ts";
 export { tokenizeForComparison } from "./tokens.ts";
+export type { CanonicalGraphemeNgramOptions } from "./grapheme-ngrams.ts";
+export { canonicalGraphemeNgrams } from "./grapheme-ngrams.ts";
+export type {
+  ConcordanceSort,
+  ConcordanceOptions,
+  ConcordanceLine,
+  ConcordanceResult,
+} from "./concordance.ts";
+export { concordance } from "./concordance.ts";
 export type { Edit, EditScript, TextDiff, TokenEdit, TextDiffSummary } from "../diff/types.ts";
 export { diffSequence } from "../diff/myers.ts";
 export type { DiffOptions } from "../diff/myers.ts";
@@ -6,7 +6,7 @@ import type { Hash64AlgoId } from "../hash64/types.ts";
 import { normalize } from "../normalize/normalize.ts";
 import { confusableSkeleton } from "../security/confusables.ts";
 import { segmentGraphemes } from "../segment/grapheme.ts";
-import { segmentWordsUAX29 } from "../segment/word.ts";
+import { type WordTailoring, segmentWordsUAX29 } from "../segment/word.ts";
 
 /**
  * TokenizerId defines an exported type contract.
@@ -42,6 +42,7 @@ export interface TokenizeOptions {
   materialize?: Materialize;
   hash?: { algo: Hash64AlgoId };
   maxTokens?: number;
+  wordTailorings?: WordTailoring[];
 }
 
 const DEFAULT_SKELETON_OPTIONS = { normalization: "NFKD" as const, caseFold: true };
@@ -49,11 +50,16 @@ const DEFAULT_HASH: Hash64AlgoId = "xxh64-utf8";
 
 /**
  * Iterate token spans using the selected tokenizer.
+ * Word tailorings apply only to the `uax29-word` tokenizer.
  * Units: UTF-16 code units.
  */
-export function* iterTokenSpans(text: string, tokenizer: TokenizerId): Iterable<Span> {
+export function* iterTokenSpans(
+  text: string,
+  tokenizer: TokenizerId,
+  wordTailorings: WordTailoring[] = [],
+): Iterable<Span> {
   if (tokenizer === "uax29-word") {
-    yield* segmentWordsUAX29(text);
+    yield* segmentWordsUAX29(text, { tailorings: wordTailorings });
     return;
   }
   if (tokenizer === "uax29-grapheme") {
@@ -69,7 +75,10 @@ export function* iterTokenSpans(text: string, tokenizer: TokenizerId): Iterable<
   }
 }
 
-function canonicalize(raw: string, canonicalKey: CanonicalKeyId): string {
+/**
+ * Canonical comparison key of one token.
+ */
+export function canonicalize(raw: string, canonicalKey: CanonicalKeyId): string {
   switch (canonicalKey) {
     case "nfc":
       return normalize(raw, "NFC");
@@ -94,7 +103,7 @@ export function tokenizeForComparison(text: string, options: TokenizeOptions): T
   const hashAlgo = options.hash?.algo ?? DEFAULT_HASH;
   const tokens: Token[] = [];
   let count = 0;
-  for (const span of iterTokenSpans(text, options.tokenizer)) {
+  for (const span of iterTokenSpans(text, options.tokenizer, options.wordTailorings)) {
     if (count >= maxTokens) break;
     let raw: string | undefined;
     let key: string | undefined;
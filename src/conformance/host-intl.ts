@@ -0,0 +1,410 @@
+import { ucaCompare, ucaStableSort } from "../collation/uca.ts";
+import { iterateCodePoints } from "../core/codepoint.ts";
+import { normalizeInput } from "../core/input.ts";
+import type { Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { type NormalizationForm, normalize } from "../normalize/normalize.ts";
+import { segmentGraphemes } from "../segment/grapheme.ts";
+import { segmentSentencesUAX29 } from "../segment/sentence.ts";
+import { isWordLikeToken } from "../segment/word-class.ts";
+import { segmentWordsUAX29 } from "../segment/word.ts";
+import { UNICODE_VERSION } from "../unicode/version.ts";
+
+/**
+ * HostSegmentGranularity defines an exported type contract.
+ */
+export type HostSegmentGranularity = "grapheme" | "word" | "sentence";
+
+/**
+ * HostIntlInfo describes the runtime whose Intl/String APIs were audited.
+ * Versions are absent when the host does not expose them (e.g. browsers).
+ */
+export interface HostIntlInfo {
+  runtime: "node" | "bun" | "deno" | "browser" | "unknown";
+  runtimeVersion?: string;
+  unicodeVersion?: string;
+  icuVersion?: string;
+  segmenter: boolean;
+  collator: boolean;
+}
+
+/**
+ * SegmentationDivergence is the smallest region between boundaries both
+ * implementations share in which their spans differ.
+ */
+export interface SegmentationDivergence {
+  startCU: number;
+  endCU: number;
+  codePoints: number[];
+  textfacts: Span[];
+  host: Span[];
+}
+
+/**
+ * SegmentationAudit defines an exported structural contract.
+ */
+export interface SegmentationAudit {
+  granularity: HostSegmentGranularity;
+  /** False when `Intl.Segmenter` is unavailable and nothing was compared. */
+  compared: boolean;
+  agrees: boolean;
+  totalDivergences: number;
+  divergences: SegmentationDivergence[];
+}
+
+/**
+ * NormalizationDivergence reports one grapheme cluster whose normalized form differs.
+ * A whole-text entry is reported when only the joined output differs; its `codePoints`
+ * is empty, since the input can be any size.
+ */
+export interface NormalizationDivergence {
+  startCU: number;
+  endCU: number;
+  codePoints: number[];
+  textfacts: string;
+  host: string;
+}
+
+/**
+ * NormalizationAudit defines an exported structural contract.
+ */
+export interface NormalizationAudit {
+  form: NormalizationForm;
+  agrees: boolean;
+  totalDivergences: number;
+  divergences: NormalizationDivergence[];
+}
+
+/**
+ * CollationDivergence reports an adjacent pair (in textfacts order) that the host orders differently.
+ */
+export interface CollationDivergence {
+  left: string;
+  right: string;
+  textfacts: -1 | 0 | 1;
+  host: -1 | 0 | 1;
+}
+
+/**
+ * CollationAudit defines an exported structural contract.
+ */
+export interface CollationAudit {
+  compared: boolean;
+  strength: 1 | 2 | 3;
+  items: number;
+  agrees: boolean;
+  totalDivergences: number;
+  divergences: CollationDivergence[];
+}
+
+/**
+ * HostIntlAuditOptions defines an exported structural contract.
+ */
+export interface HostIntlAuditOptions {
+  /** Locale passed to `Intl.Segmenter`/`Intl.Collator` (default "und", the root locale). */
+  locale?: string;
+  granularities?: HostSegmentGranularity[];
+  /** UAX #15 forms only; `String.prototype.normalize` has no FCC. */
+  forms?: Exclude<NormalizationForm, "FCC">[];
+  /** Strings to collate; defaults to the distinct word-like segments of the text. */
+  collationItems?: string[];
+  collationStrength?: 1 | 2 | 3;
+  maxCollationItems?: number;
+  maxDivergences?: number;
+}
+
+/**
+ * HostIntlAudit defines an exported structural contract.
+ */
+export interface HostIntlAudit {
+  implementationId: string;
+  unicodeVersion: string;
+  host: HostIntlInfo;
+  agrees: boolean;
+  segmentation: SegmentationAudit[];
+  normalization: NormalizationAudit[];
+  collation: CollationAudit;
+}
+
+const DEFAULT_LOCALE = "und";
+const DEFAULT_GRANULARITIES: readonly HostSegmentGranularity[] = ["grapheme", "word", "sentence"];
+const DEFAULT_FORMS: readonly Exclude<NormalizationForm, "FCC">[] = ["NFC", "NFD", "NFKC", "NFKD"];
+const DEFAULT_MAX_COLLATION_ITEMS = 1000;
+const DEFAULT_MAX_DIVERGENCES = 100;
+const COLLATOR_SENSITIVITY = { 1: "base", 2: "accent", 3: "variant" } as const;
+
+type HostGlobals = {
+  process?: { versions?: Record<string, string | undefined> };
+  Deno?: { version?: { deno?: string } };
+  Bun?: { version?: string };
+  window?: unknown;
+};
+
+/**
+ * Describe the host runtime and the Unicode/ICU versions behind its Intl APIs.
+ */
+export function hostIntlInfo(): HostIntlInfo {
+  const host = globalThis as HostGlobals;
+  const versions = host.process?.versions;
+  const info: HostIntlInfo = {
+    runtime: "unknown",
+    segmenter: typeof Intl !== "undefined" && typeof Intl.Segmenter === "function",
+    collator: typeof Intl !== "undefined" && typeof Intl.Collator === "function",
+  };
+  if (host.Bun) {
+    info.runtime = "bun";
+    if (host.Bun.version) info.runtimeVersion = host.Bun.version;
+  } else if (host.Deno) {
+    info.runtime = "deno";
+    if (host.Deno.version?.deno) info.runtimeVersion = host.Deno.version.deno;
+  } else if (versions?.node) {
+    info.runtime = "node";
+    info.runtimeVersion = versions.node;
+  } else if (host.window !== undefined) {
+    info.runtime = "browser";
+  }
+  if (versions?.unicode) info.unicodeVersion = versions.unicode;
+  if (versions?.icu) info.icuVersion = versions.icu;
+  return info;
+}
+
+function codePointsOf(text: string): number[] {
+  const codePoints: number[] = [];
+  for (const cp of iterateCodePoints(text)) codePoints.push(cp.codePoint);
+  return codePoints;
+}
+
+function textfactsSpans(text: string, granularity: HostSegmentGranularity): Span[] {
+  if (granularity === "word") return [...segmentWordsUAX29(text)];
+  if (granularity === "sentence") return [...segmentSentencesUAX29(text)];
+  return [...segmentGraphemes(text)];
+}
+
+function hostSpans(text: string, granularity: HostSegmentGranularity, locale: string): Span[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity });
+  const spans: Span[] = [];
+  for (const segment of segmenter.segment(text)) {
+    spans.push({ startCU: segment.index, endCU: segment.index + segment.segment.length });
+  }
+  return spans;
+}
+
+/**
+ * Group the spans of both sides into regions delimited by shared boundaries.
+ */
+function diffSpans(
+  text: string,
+  ours: Span[],
+  theirs: Span[],
+  maxDivergences: number,
+): { total: number; regions: SegmentationDivergence[] } {
+  const regions: SegmentationDivergence[] = [];
+  let total = 0;
+  let oursIndex = 0;
+  let theirsIndex = 0;
+  while (oursIndex < ours.length || theirsIndex < theirs.length) {
+    const oursSpan = ours[oursIndex];
+    const theirsSpan = theirs[theirsIndex];
+    if (
+      oursSpan &&
+      theirsSpan &&
+      oursSpan.startCU === theirsSpan.startCU &&
+      oursSpan.endCU === theirsSpan.endCU
+    ) {
+      oursIndex += 1;
+      theirsIndex += 1;
+      continue;
+    }
+    const startCU = Math.min(oursSpan?.startCU ?? text.length, theirsSpan?.startCU ?? text.length);
+    const regionOurs: Span[] = [];
+    const regionTheirs: Span[] = [];
+    let oursEnd = startCU;
+    let theirsEnd = startCU;
+    do {
+      if (oursEnd <= theirsEnd && oursIndex < ours.length) {
+        const span = ours[oursIndex] as Span;
+        regionOurs.push(span);
+        oursEnd = span.endCU;
+        oursIndex += 1;
+      } else if (theirsIndex < theirs.length) {
+        const span = theirs[theirsIndex] as Span;
+        regionTheirs.push(span);
+        theirsEnd = span.endCU;
+        theirsIndex += 1;
+      } else {
+        break;
+      }
+    } while (oursEnd !== theirsEnd);
+    const endCU = Math.max(oursEnd, theirsEnd);
+    total += 1;
+    if (regions.length < maxDivergences) {
+      regions.push({
+        startCU,
+        endCU,
+        codePoints: codePointsOf(text.slice(startCU, endCU)),
+        textfacts: regionOurs,
+        host: regionTheirs,
+      });
+    }
+  }
+  return { total, regions };
+}
+
+function auditSegmentation(
+  text: string,
+  granularity: HostSegmentGranularity,
+  info: HostIntlInfo,
+  locale: string,
+  maxDivergences: number,
+): SegmentationAudit {
+  if (!info.segmenter) {
+    return { granularity, compared: false, agrees: false, totalDivergences: 0, divergences: [] };
+  }
+  const diff = diffSpans(
+    text,
+    textfactsSpans(text, granularity),
+    hostSpans(text, granularity, locale),
+    maxDivergences,
+  );
+  return {
+    granularity,
+    compared: true,
+    agrees: diff.total === 0,
+    totalDivergences: diff.total,
+    divergences: diff.regions,
+  };
+}
+
+function auditNormalization(
+  text: string,
+  form: Exclude<NormalizationForm, "FCC">,
+  maxDivergences: number,
+): NormalizationAudit {
+  const ours = normalize(text, form);
+  const theirs = text.normalize(form);
+  if (ours === theirs) {
+    return { form, agrees: true, totalDivergences: 0, divergences: [] };
+  }
+  const divergences: NormalizationDivergence[] = [];
+  let total = 0;
+  for (const span of segmentGraphemes(text)) {
+    const cluster = text.slice(span.startCU, span.endCU);
+    const clusterOurs = normalize(cluster, form);
+    const clusterTheirs = cluster.normalize(form);
+    if (clusterOurs === clusterTheirs) continue;
+    total += 1;
+    if (divergences.length < maxDivergences) {
+      divergences.push({
+        startCU: span.startCU,
+        endCU: span.endCU,
+        codePoints: codePointsOf(cluster),
+        textfacts: clusterOurs,
+        host: clusterTheirs,
+      });
+    }
+  }
+  if (total === 0) {
+    total = 1;
+    if (divergences.length < maxDivergences) {
+      divergences.push({
+        startCU: 0,
+        endCU: text.length,
+        codePoints: [],
+        textfacts: ours,
+        host: theirs,
+      });
+    }
+  }
+  return { form, agrees: false, totalDivergences: total, divergences };
+}
+
+function sign(value: number): -1 | 0 | 1 {
+  if (value < 0) return -1;
+  if (value > 0) return 1;
+  return 0;
+}
+
+function defaultCollationItems(text: string): string[] {
+  const items = new Set<string>();
+  for (const span of segmentWordsUAX29(text)) {
+    const token = text.slice(span.startCU, span.endCU);
+    if (isWordLikeToken(token)) items.add(token);
+  }
+  return [...items];
+}
+
+function auditCollation(
+  text: string,
+  info: HostIntlInfo,
+  options: HostIntlAuditOptions,
+  locale: string,
+  maxDivergences: number,
+): CollationAudit {
+  const strength = options.collationStrength ?? 3;
+  const maxItems = Math.max(0, options.maxCollationItems ?? DEFAULT_MAX_COLLATION_ITEMS);
+  const items = [...new Set(options.collationItems ?? defaultCollationItems(text))].slice(
+    0,
+    maxItems,
+  );
+  const audit: CollationAudit = {
+    compared: info.collator,
+    strength,
+    items: items.length,
+    agrees: info.collator,
+    totalDivergences: 0,
+    divergences: [],
+  };
+  if (!info.collator) return audit;
+  const ucaOptions = { strength, includeIdenticalLevel: false } as const;
+  const collator = new Intl.Collator(locale, {
+    usage: "sort",
+    sensitivity: COLLATOR_SENSITIVITY[strength],
+  });
+  const sorted = ucaStableSort(items, ucaOptions);
+  for (let index = 1; index < sorted.length; index += 1) {
+    const left = sorted[index - 1] ?? "";
+    const right = sorted[index] ?? "";
+    const ours = ucaCompare(left, right, ucaOptions);
+    const theirs = sign(collator.compare(left, right));
+    if (ours === theirs) continue;
+    audit.totalDivergences += 1;
+    if (audit.divergences.length < maxDivergences) {
+      audit.divergences.push({ left, right, textfacts: ours, host: theirs });
+    }
+  }
+  audit.agrees = audit.totalDivergences === 0;
+  return audit;
+}
+
+/**
+ * Run textfacts segmentation, normalization and collation side by side with the
+ * host's `Intl.Segmenter`, `String.prototype.normalize` and `Intl.Collator`.
+ * Reports where they disagree; it never changes textfacts results.
+ * Units: UTF-16 code units.
+ */
+export function auditHostIntl(input: TextInput, options: HostIntlAuditOptions = {}): HostIntlAudit {
+  const { text } = normalizeInput(input);
+  const host = hostIntlInfo();
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const maxDivergences = Math.max(0, options.maxDivergences ?? DEFAULT_MAX_DIVERGENCES);
+  const segmentation = (options.granularities ?? DEFAULT_GRANULARITIES).map((granularity) =>
+    auditSegmentation(text, granularity, host, locale, maxDivergences),
+  );
+  const normalization = (options.forms ?? DEFAULT_FORMS).map((form) =>
+    auditNormalization(text, form, maxDivergences),
+  );
+  const collation = auditCollation(text, host, options, locale, maxDivergences);
+  const agrees =
+    segmentation.every((audit) => audit.agrees || !audit.compared) &&
+    normalization.every((audit) => audit.agrees) &&
+    (collation.agrees || !collation.compared);
+  return {
+    implementationId: IMPLEMENTATION_ID,
+    unicodeVersion: UNICODE_VERSION,
+    host,
+    agrees,
+    segmentation,
+    normalization,
+    collation,
+  };
+}
@@ -14,7 +14,8 @@ export type TextfactsErrorCode =
   | "HASH64_UNSUPPORTED_SEED"
   | "HASH128_INVALID_HEX"
   | "COLLATION_ILL_FORMED"
-  | "SCHEMA_TARGET_UNSUPPORTED";
+  | "SCHEMA_TARGET_UNSUPPORTED"
+  | "FACTS_INCOMPATIBLE_STATE";
 
 /**
  * TextfactsError provides an exported class contract.
@@ -44,6 +44,7 @@ export interface Provenance {
     grapheme?: "uax29-grapheme";
     word?: "uax29-word";
     sentence?: "uax29-sentence";
+    paragraph?: "uax9-paragraph";
     lineBreak?: "uax14-line-break";
     bidi?: "uax9-bidi";
     caseFold?: "unicode-casefold";
@@ -60,3 +61,38 @@ export interface Provenance {
 export interface SegmentIterable extends Iterable<Span> {
   provenance: Provenance;
 }
+
+/**
+ * AsyncSegmentIterable defines an exported structural contract.
+ */
+export interface AsyncSegmentIterable extends AsyncIterable<Span> {
+  provenance: Provenance;
+}
+
+/**
+ * ByteSegmentIterable defines an exported structural contract.
+ */
+export interface ByteSegmentIterable extends Iterable<ByteSpan> {
+  provenance: Provenance;
+}
+
+/**
+ * BreakTrace explains the break decision at one inter-code-point position.
+ */
+export interface BreakTrace {
+  posCU: number;
+  isBreak: boolean;
+  /** UAX #29 rule that decided the position, e.g. "GB9c", "WB6" or "SB11". */
+  ruleId: string;
+  /** Break property value of the code point before `posCU`. */
+  propertyBefore: string;
+  /** Break property value of the code point at `posCU`. */
+  propertyAfter: string;
+}
+
+/**
+ * BreakTraceIterable defines an exported structural contract.
+ */
+export interface BreakTraceIterable extends Iterable<BreakTrace> {
+  provenance: Provenance;
+}
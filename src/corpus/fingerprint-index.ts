@@ -4,6 +4,7 @@ import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { shingleHashes } from "../fingerprint/shingles.ts";
 import { type WinnowingOptions, selectWinnowingIndexes } from "../fingerprint/winnowing.ts";
 import { formatU64Hex } from "../hash64/fnv1a64.ts";
+import { normalizeWordTailorings } from "../segment/word.ts";
 
 /**
  * FingerprintIndexOptions defines an exported structural contract.
@@ -50,6 +51,7 @@ export function buildFingerprintIndex(
 
   const shingleSize = Math.max(1, Math.floor(options.k));
   const windowSize = Math.max(1, Math.floor(options.window));
+  const wordTailorings = normalizeWordTailorings(options.wordTailorings);
 
   for (const doc of docs) {
     if (docCount >= maxDocs) {
@@ -65,6 +67,7 @@ export function buildFingerprintIndex(
       materialize: "none";
       hash?: typeof options.hash;
       maxTokens?: number;
+      wordTailorings?: typeof wordTailorings;
     } = {
       tokenizer: options.tokenizer,
       canonicalKey: options.canonicalKey,
@@ -72,6 +75,7 @@ export function buildFingerprintIndex(
     };
     if (options.hash) tokenOptions.hash = options.hash;
     if (options.maxTokens !== undefined) tokenOptions.maxTokens = options.maxTokens;
+    if (wordTailorings.length > 0) tokenOptions.wordTailorings = wordTailorings;
 
     const tokens = tokenizeForComparison(doc.text, tokenOptions);
     const shingles = shingleHashes(tokens, shingleSize);
@@ -165,6 +169,7 @@ export function buildFingerprintIndex(
       maxFingerprintsPerDoc: options.maxFingerprintsPerDoc ?? null,
       maxDocs: options.maxDocs ?? null,
       maxIndexEntries: options.maxIndexEntries ?? null,
+      ...(wordTailorings.length > 0 ? { wordTailorings } : {}),
     },
     {
       text: "utf16-code-unit",
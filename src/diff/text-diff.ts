@@ -1,6 +1,7 @@
 import {
   type CanonicalKeyId,
   type Token,
+  type TokenizeOptions,
   type TokenizerId,
   tokenizeForComparison,
 } from "../compare/tokens.ts";
@@ -10,6 +11,7 @@ import type { Span } from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { containment, jaccard, overlapCount } from "../fingerprint/metrics.ts";
 import { type WinnowingOptions, winnowingFingerprints } from "../fingerprint/winnowing.ts";
+import { type WordTailoring, normalizeWordTailorings } from "../segment/word.ts";
 import { type DiffOptions, diffSequence } from "./myers.ts";
 import type { Edit, TextDiff, TokenEdit } from "./types.ts";
 
@@ -20,6 +22,7 @@ export interface TextDiffOptions extends DiffOptions {
   tokenizer: TokenizerId;
   canonicalKey: CanonicalKeyId;
   maxTokens?: number;
+  wordTailorings?: WordTailoring[];
 }
 
 /**
@@ -33,6 +36,7 @@ export interface CompareTextsOptions {
   maxTokens?: number;
   maxD?: number;
   prefer?: "delete" | "insert";
+  wordTailorings?: WordTailoring[];
 }
 
 /**
@@ -112,17 +116,14 @@ export function diffText(
   targetText: string,
   options: TextDiffOptions,
 ): TextDiff {
-  const tokenOptions: {
-    tokenizer: TokenizerId;
-    canonicalKey: CanonicalKeyId;
-    materialize: "raw+key";
-    maxTokens?: number;
-  } = {
+  const tokenOptions: TokenizeOptions = {
     tokenizer: options.tokenizer,
     canonicalKey: options.canonicalKey,
     materialize: "raw+key",
   };
   if (options.maxTokens !== undefined) tokenOptions.maxTokens = options.maxTokens;
+  const wordTailorings = normalizeWordTailorings(options.wordTailorings);
+  if (wordTailorings.length > 0) tokenOptions.wordTailorings = wordTailorings;
 
   const sourceTokens = tokenizeForComparison(sourceText, tokenOptions);
   const targetTokens = tokenizeForComparison(targetText, tokenOptions);
@@ -159,6 +160,7 @@ export function diffText(
       maxTokens: options.maxTokens ?? null,
       maxD: options.maxD ?? null,
       prefer: options.prefer ?? "delete",
+      ...(wordTailorings.length > 0 ? { wordTailorings } : {}),
     },
     {
       text: "utf16-code-unit",
@@ -186,6 +188,7 @@ export function compareTextsDetailed(
   targetText: string,
   options: CompareTextsOptions,
 ): CompareTextsResult {
+  const wordTailorings = normalizeWordTailorings(options.wordTailorings);
   const fingerprintOptions: WinnowingOptions = {
     tokenizer: options.tokenizer,
     canonicalKey: options.canonicalKey,
@@ -198,6 +201,7 @@ export function compareTextsDetailed(
   if (options.fingerprint?.maxFingerprints !== undefined) {
     fingerprintOptions.maxFingerprints = options.fingerprint.maxFingerprints;
   }
+  if (wordTailorings.length > 0) fingerprintOptions.wordTailorings = wordTailorings;
   const sourceFingerprints = winnowingFingerprints(sourceText, fingerprintOptions);
   const targetFingerprints = winnowingFingerprints(targetText, fingerprintOptions);
   const sourceSet = new Set(
@@ -221,6 +225,7 @@ export function compareTextsDetailed(
     if (options.maxTokens !== undefined) diffOptions.maxTokens = options.maxTokens;
     if (options.maxD !== undefined) diffOptions.maxD = options.maxD;
     if (options.prefer !== undefined) diffOptions.prefer = options.prefer;
+    if (wordTailorings.length > 0) diffOptions.wordTailorings = wordTailorings;
     diffResult = diffText(sourceText, targetText, diffOptions);
   }
 
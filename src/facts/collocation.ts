@@ -0,0 +1,262 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { Provenance, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import type { Ratio } from "../profile/compare.ts";
+import { type WordTailoring, normalizeWordTailorings } from "../segment/word.ts";
+import { type WordTokenFilter, compileWordTokenFilter } from "./token-filter.ts";
+import { wordCooccurrence } from "./word.ts";
+
+/**
+ * CollocationStatistic names an optional floating-point statistic.
+ */
+export type CollocationStatistic = "logLikelihood" | "pmi";
+
+/**
+ * CollocationRanking selects the exact quantity items are ranked by.
+ * - `count`: observed pair count.
+ * - `pmi`: the exact ratio O11 / E11 (the argument of PMI), so ranking never depends on
+ *   floating-point results.
+ */
+export type CollocationRanking = "count" | "pmi";
+
+/**
+ * WordCollocationOptions defines an exported structural contract.
+ */
+export interface WordCollocationOptions {
+  windowSize: number;
+  filter?: WordTokenFilter;
+  algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+  statistics?: CollocationStatistic[];
+  rankBy?: CollocationRanking;
+  minCount?: number;
+  topK?: number;
+}
+
+/**
+ * CollocationContingency is the 2x2 table over pair observations for tokens (a, b).
+ * Rows: the observation contains a / not; columns: contains b / not.
+ * Observed cells are exact counts; expected cells are exact rationals R_i * C_j / N.
+ */
+export interface CollocationContingency {
+  o11: number;
+  o12: number;
+  o21: number;
+  o22: number;
+  e11: Ratio;
+  e12: Ratio;
+  e21: Ratio;
+  e22: Ratio;
+}
+
+/**
+ * DerivedStatistic is a floating-point value computed from the exact table by `formula`.
+ */
+export interface DerivedStatistic {
+  derived: true;
+  formula: string;
+  value: number;
+}
+
+/**
+ * WordCollocationItem defines an exported structural contract.
+ */
+export interface WordCollocationItem {
+  tokens: [string, string];
+  count: number;
+  contingency: CollocationContingency;
+  observedExpected: Ratio;
+  statistics?: {
+    logLikelihood?: DerivedStatistic;
+    pmi?: DerivedStatistic;
+  };
+}
+
+/**
+ * WordCollocationResult defines an exported structural contract.
+ */
+export interface WordCollocationResult {
+  items: WordCollocationItem[];
+  totalPairs: number;
+  totalWindows: number;
+  truncated?: boolean;
+  provenance: Provenance;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX29_SPEC = "https://unicode.org/reports/tr29/";
+const LOG_LIKELIHOOD_FORMULA = "G2 = 2 * sum_ij O_ij * ln(O_ij / E_ij)";
+const PMI_FORMULA = "PMI = log2(O11 / E11)";
+const STATISTIC_ORDER: readonly CollocationStatistic[] = ["logLikelihood", "pmi"];
+
+function ratio(num: bigint, den: bigint): Ratio {
+  if (den === 0n) return { num: "0", den: "1" };
+  return { num: num.toString(), den: den.toString() };
+}
+
+function normalizeStatistics(statistics: CollocationStatistic[] = []): CollocationStatistic[] {
+  for (const statistic of statistics) {
+    if (!STATISTIC_ORDER.includes(statistic)) {
+      throw new RangeError(`Unknown collocation statistic: ${statistic}`);
+    }
+  }
+  return STATISTIC_ORDER.filter((statistic) => statistics.includes(statistic));
+}
+
+interface PairTable {
+  tokens: [string, string];
+  observed: [number, number, number, number];
+  rows: [number, number];
+  cols: [number, number];
+}
+
+function logLikelihood(table: PairTable, total: number): number {
+  let sum = 0;
+  for (let cell = 0; cell < 4; cell += 1) {
+    const observed = table.observed[cell] ?? 0;
+    if (observed === 0) continue;
+    const row = table.rows[cell >> 1] ?? 0;
+    const col = table.cols[cell & 1] ?? 0;
+    sum += observed * Math.log((observed * total) / (row * col));
+  }
+  return 2 * sum;
+}
+
+/**
+ * Word collocation statistics over `wordCooccurrence` pair observations.
+ * Each window pair is one observation; N is their total and a token's marginal is the number
+ * of observations containing it. Pairs of identical tokens count toward N and marginals but
+ * are not reported. Ties are broken by count, then by code point order of the tokens.
+ * Units: bytes (UTF-8).
+ */
+export function wordCollocations(
+  input: TextInput,
+  options: WordCollocationOptions,
+): WordCollocationResult {
+  const statistics = normalizeStatistics(options.statistics);
+  const rankBy = options.rankBy ?? "count";
+  const minCount = Math.max(1, Math.floor(options.minCount ?? 1));
+  const tailorings = normalizeWordTailorings(options.tailorings);
+  const normalizedOptions = {
+    windowSize: Math.max(2, Math.floor(options.windowSize)),
+    filter: compileWordTokenFilter(options.filter).config,
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    statistics,
+    rankBy,
+    minCount,
+    ...(tailorings.length > 0 ? { tailorings } : {}),
+    ...(options.topK !== undefined ? { topK: Math.max(0, Math.floor(options.topK)) } : {}),
+  };
+
+  const cooccurrence = wordCooccurrence(input, {
+    windowSize: normalizedOptions.windowSize,
+    filter: options.filter ?? "all",
+    algorithmRevision: normalizedOptions.algorithmRevision,
+    tailorings,
+  });
+  const marginals = new Map<string, number>();
+  let totalPairs = 0;
+  for (const item of cooccurrence.items) {
+    totalPairs += item.count;
+    marginals.set(item.tokens[0], (marginals.get(item.tokens[0]) ?? 0) + item.count);
+    if (item.tokens[1] !== item.tokens[0]) {
+      marginals.set(item.tokens[1], (marginals.get(item.tokens[1]) ?? 0) + item.count);
+    }
+  }
+
+  const tables: PairTable[] = [];
+  for (const item of cooccurrence.items) {
+    if (item.count < minCount || item.tokens[0] === item.tokens[1]) continue;
+    const rowA = marginals.get(item.tokens[0]) ?? 0;
+    const colB = marginals.get(item.tokens[1]) ?? 0;
+    tables.push({
+      tokens: item.tokens,
+      observed: [
+        item.count,
+        rowA - item.count,
+        colB - item.count,
+        totalPairs - rowA - colB + item.count,
+      ],
+      rows: [rowA, totalPairs - rowA],
+      cols: [colB, totalPairs - colB],
+    });
+  }
+
+  tables.sort((a, b) => {
+    if (rankBy === "pmi") {
+      const left = BigInt(a.observed[0]) * BigInt(b.rows[0]) * BigInt(b.cols[0]);
+      const right = BigInt(b.observed[0]) * BigInt(a.rows[0]) * BigInt(a.cols[0]);
+      if (left !== right) return left > right ? -1 : 1;
+    }
+    if (a.observed[0] !== b.observed[0]) return b.observed[0] - a.observed[0];
+    const cmp = compareByCodePoint(a.tokens[0], b.tokens[0]);
+    if (cmp !== 0) return cmp;
+    return compareByCodePoint(a.tokens[1], b.tokens[1]);
+  });
+
+  const total = BigInt(totalPairs);
+  const expected = (row: number, col: number) => ratio(BigInt(row) * BigInt(col), total);
+  const kept =
+    normalizedOptions.topK !== undefined ? tables.slice(0, normalizedOptions.topK) : tables;
+  const items = kept.map((table): WordCollocationItem => {
+    const [o11, o12, o21, o22] = table.observed;
+    const [row1, row2] = table.rows;
+    const [col1, col2] = table.cols;
+    const item: WordCollocationItem = {
+      tokens: table.tokens,
+      count: o11,
+      contingency: {
+        o11,
+        o12,
+        o21,
+        o22,
+        e11: expected(row1, col1),
+        e12: expected(row1, col2),
+        e21: expected(row2, col1),
+        e22: expected(row2, col2),
+      },
+      observedExpected: ratio(BigInt(o11) * total, BigInt(row1) * BigInt(col1)),
+    };
+    if (statistics.length > 0) {
+      item.statistics = {};
+      if (statistics.includes("logLikelihood")) {
+        item.statistics.logLikelihood = {
+          derived: true,
+          formula: LOG_LIKELIHOOD_FORMULA,
+          value: logLikelihood(table, totalPairs),
+        };
+      }
+      if (statistics.includes("pmi")) {
+        item.statistics.pmi = {
+          derived: true,
+          formula: PMI_FORMULA,
+          value: Math.log2((o11 * totalPairs) / (row1 * col1)),
+        };
+      }
+    }
+    return item;
+  });
+
+  const result: WordCollocationResult = {
+    items,
+    totalPairs,
+    totalWindows: cooccurrence.totalWindows,
+    provenance: createProvenance(
+      {
+        name: "Facts.WordCollocations",
+        spec: UAX29_SPEC,
+        revisionOrDate: normalizedOptions.algorithmRevision,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      normalizedOptions,
+      {
+        text: "utf16-code-unit",
+        token: "uax29-word",
+        word: "uax29-word",
+      },
+    ),
+  };
+  if (kept.length < tables.length) result.truncated = true;
+  return result;
+}
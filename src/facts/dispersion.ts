@@ -0,0 +1,309 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import { sliceBySpan } from "../core/span.ts";
+import type { Provenance, Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import type { Ratio } from "../profile/compare.ts";
+import {
+  type SentenceSegmentOptions,
+  normalizeSentenceSuppressions,
+  segmentSentencesUAX29,
+} from "../segment/sentence.ts";
+import {
+  type WordSegmentOptions,
+  type WordTailoring,
+  normalizeWordTailorings,
+  segmentWordsUAX29,
+} from "../segment/word.ts";
+import { type WordTokenFilter, compileWordTokenFilter } from "./token-filter.ts";
+
+/**
+ * DispersionPartition names how text is cut into parts.
+ * - `uax29-sentence`: UAX #29 sentences; a word belongs to the sentence it starts in.
+ * - `document`: each corpus document is one part.
+ */
+export type DispersionPartition = "uax29-sentence" | "document";
+
+/**
+ * WordDispersionOptions defines an exported structural contract.
+ * `filter` defaults to `word-like`; `sentenceSuppressions` applies to the sentence partition.
+ */
+export interface WordDispersionOptions {
+  filter?: WordTokenFilter;
+  algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+  sentenceSuppressions?: string[];
+  minCount?: number;
+  topK?: number;
+}
+
+/**
+ * DispersionOccurrence locates a token occurrence: the 0-based part index and the token span
+ * within that part's input text. Parts without counted tokens are not numbered, so indices
+ * run from 0 to `parts - 1`.
+ */
+export interface DispersionOccurrence {
+  part: number;
+  span: Span;
+}
+
+/**
+ * DispersionMeasure is an exact ratio with the formula that produced it.
+ */
+export interface DispersionMeasure {
+  ratio: Ratio;
+  formula: string;
+}
+
+/**
+ * WordDispersionItem defines an exported structural contract.
+ * - `range`: number of parts containing the token.
+ * - `juillandOneMinusDSquared`: (1 - D)^2 for Juilland's D, kept exact because D itself
+ *   involves a square root; D = 1 - sqrt(ratio). Parts are treated as equal-sized, as in
+ *   Juilland's definition. Omitted when there are fewer than two parts, where D is undefined.
+ * - `dp`: Gries' deviation of proportions, weighting each part by its token share.
+ */
+export interface WordDispersionItem {
+  token: string;
+  count: number;
+  range: number;
+  first: DispersionOccurrence;
+  last: DispersionOccurrence;
+  juillandOneMinusDSquared?: DispersionMeasure;
+  dp: DispersionMeasure;
+}
+
+/**
+ * WordDispersionResult defines an exported structural contract.
+ * `parts` counts only parts holding at least one counted token; empty parts are not part of n.
+ */
+export interface WordDispersionResult {
+  partition: DispersionPartition;
+  items: WordDispersionItem[];
+  parts: number;
+  totalTokens: number;
+  truncated?: boolean;
+  provenance: Provenance;
+}
+
+interface TermTally {
+  count: number;
+  range: number;
+  sumSquares: bigint;
+  /** Flattened [v_i, s_i] pairs for the parts containing the term. */
+  partCounts: number[];
+  first: DispersionOccurrence;
+  last: DispersionOccurrence;
+}
+
+interface DispersionTally {
+  parts: number;
+  totalTokens: number;
+  terms: Map<string, TermTally>;
+  current: Map<string, number>;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX29_SPEC = "https://unicode.org/reports/tr29/";
+const DISPERSION_FORMULAS = {
+  juillandOneMinusDSquared: "(1 - D)^2 = V^2 / (n - 1) = (n sum_i v_i^2 - f^2) / (f^2 (n - 1))",
+  dp: "DP = 1/2 sum_i |v_i / f - s_i / S|",
+} as const;
+
+function ratio(num: bigint, den: bigint): Ratio {
+  if (den === 0n) return { num: "0", den: "1" };
+  return { num: num.toString(), den: den.toString() };
+}
+
+function createTally(): DispersionTally {
+  return { parts: 0, totalTokens: 0, terms: new Map(), current: new Map() };
+}
+
+function tallyToken(tally: DispersionTally, token: string, span: Span): void {
+  // Empty parts are never closed, so the open part's index is the closed-part count.
+  const occurrence = { part: tally.parts, span };
+  const term = tally.terms.get(token);
+  if (term) {
+    term.count += 1;
+    term.last = occurrence;
+  } else {
+    tally.terms.set(token, {
+      count: 1,
+      range: 0,
+      sumSquares: 0n,
+      partCounts: [],
+      first: occurrence,
+      last: occurrence,
+    });
+  }
+  tally.current.set(token, (tally.current.get(token) ?? 0) + 1);
+}
+
+function closePart(tally: DispersionTally): void {
+  let size = 0;
+  for (const partCount of tally.current.values()) size += partCount;
+  if (size === 0) return;
+  tally.parts += 1;
+  tally.totalTokens += size;
+  for (const [token, partCount] of tally.current) {
+    const term = tally.terms.get(token);
+    if (!term) continue;
+    term.range += 1;
+    term.sumSquares += BigInt(partCount) * BigInt(partCount);
+    term.partCounts.push(partCount, size);
+  }
+  tally.current.clear();
+}
+
+function juillandOneMinusDSquared(term: TermTally, parts: bigint): DispersionMeasure {
+  const f = BigInt(term.count);
+  return {
+    ratio: ratio(parts * term.sumSquares - f * f, f * f * (parts - 1n)),
+    formula: DISPERSION_FORMULAS.juillandOneMinusDSquared,
+  };
+}
+
+function deviationOfProportions(term: TermTally, totalTokens: bigint): DispersionMeasure {
+  const f = BigInt(term.count);
+  // Parts without the term contribute s_i * f each; they sum to (S - covered) * f.
+  let covered = 0n;
+  let sum = 0n;
+  for (let index = 0; index < term.partCounts.length; index += 2) {
+    const partCount = BigInt(term.partCounts[index] ?? 0);
+    const size = BigInt(term.partCounts[index + 1] ?? 0);
+    const diff = partCount * totalTokens - size * f;
+    sum += diff < 0n ? -diff : diff;
+    covered += size;
+  }
+  sum += (totalTokens - covered) * f;
+  return { ratio: ratio(sum, 2n * f * totalTokens), formula: DISPERSION_FORMULAS.dp };
+}
+
+function finishDispersion(
+  tally: DispersionTally,
+  partition: DispersionPartition,
+  normalizedOptions: { algorithmRevision: string; minCount: number; topK?: number },
+): WordDispersionResult {
+  const parts = BigInt(tally.parts);
+  const totalTokens = BigInt(tally.totalTokens);
+  const terms = Array.from(tally.terms.entries()).filter(
+    ([, term]) => term.count >= normalizedOptions.minCount,
+  );
+  terms.sort((a, b) => {
+    if (a[1].count !== b[1].count) return b[1].count - a[1].count;
+    return compareByCodePoint(a[0], b[0]);
+  });
+  const kept =
+    normalizedOptions.topK !== undefined ? terms.slice(0, normalizedOptions.topK) : terms;
+  const result: WordDispersionResult = {
+    partition,
+    items: kept.map(([token, term]) => {
+      const item: WordDispersionItem = {
+        token,
+        count: term.count,
+        range: term.range,
+        first: term.first,
+        last: term.last,
+        dp: deviationOfProportions(term, totalTokens),
+      };
+      if (parts >= 2n) item.juillandOneMinusDSquared = juillandOneMinusDSquared(term, parts);
+      return item;
+    }),
+    parts: tally.parts,
+    totalTokens: tally.totalTokens,
+    provenance: createProvenance(
+      {
+        name: "Facts.WordDispersion",
+        spec: UAX29_SPEC,
+        revisionOrDate: normalizedOptions.algorithmRevision,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      { partition, ...normalizedOptions },
+      {
+        text: "utf16-code-unit",
+        token: "uax29-word",
+        word: "uax29-word",
+        ...(partition === "uax29-sentence" ? { sentence: "uax29-sentence" } : {}),
+      },
+    ),
+  };
+  if (kept.length < terms.length) result.truncated = true;
+  return result;
+}
+
+function normalizeDispersionOptions(options: WordDispersionOptions) {
+  const filter = compileWordTokenFilter(options.filter ?? "word-like");
+  const tailorings = normalizeWordTailorings(options.tailorings);
+  const algorithmRevision = options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION;
+  const segmentOptions: WordSegmentOptions = { algorithmRevision };
+  if (tailorings.length > 0) segmentOptions.tailorings = tailorings;
+  const normalizedOptions = {
+    filter: filter.config,
+    algorithmRevision,
+    minCount: Math.max(1, Math.floor(options.minCount ?? 1)),
+    formulas: DISPERSION_FORMULAS,
+    ...(tailorings.length > 0 ? { tailorings } : {}),
+    ...(options.topK !== undefined ? { topK: Math.max(0, Math.floor(options.topK)) } : {}),
+  };
+  return { accepts: filter.accepts, segmentOptions, normalizedOptions };
+}
+
+/**
+ * Per-word dispersion over UAX #29 sentences: range, first and last occurrence, (1 - D)^2 for
+ * Juilland's D and Gries' DP. Items are sorted by count, then by code point order of the token.
+ * Units: UTF-16 code units.
+ */
+export function wordDispersion(
+  input: TextInput,
+  options: WordDispersionOptions = {},
+): WordDispersionResult {
+  const { accepts, segmentOptions, normalizedOptions } = normalizeDispersionOptions(options);
+  const suppressions = normalizeSentenceSuppressions(options.sentenceSuppressions);
+  const sentenceOptions: SentenceSegmentOptions = {
+    algorithmRevision: normalizedOptions.algorithmRevision,
+  };
+  if (suppressions.length > 0) sentenceOptions.suppressions = suppressions;
+  const { text } = normalizeInput(input);
+
+  const sentenceEnds: number[] = [];
+  for (const span of segmentSentencesUAX29(text, sentenceOptions)) sentenceEnds.push(span.endCU);
+  const tally = createTally();
+  let sentence = 0;
+  for (const span of segmentWordsUAX29(text, segmentOptions)) {
+    while (span.startCU >= (sentenceEnds[sentence] ?? text.length)) {
+      closePart(tally);
+      sentence += 1;
+    }
+    const token = sliceBySpan(text, span);
+    if (accepts(token)) tallyToken(tally, token, span);
+  }
+  closePart(tally);
+
+  return finishDispersion(tally, "uax29-sentence", {
+    ...normalizedOptions,
+    ...(suppressions.length > 0 ? { sentenceSuppressions: suppressions } : {}),
+  });
+}
+
+/**
+ * Per-word dispersion with each document as one part; occurrence spans are relative to
+ * their document. Measures and ordering match `wordDispersion`.
+ * Units: UTF-16 code units.
+ */
+export function corpusWordDispersion(
+  docs: Iterable<TextInput>,
+  options: Omit<WordDispersionOptions, "sentenceSuppressions"> = {},
+): WordDispersionResult {
+  const { accepts, segmentOptions, normalizedOptions } = normalizeDispersionOptions(options);
+  const tally = createTally();
+  for (const doc of docs) {
+    const { text } = normalizeInput(doc);
+    for (const span of segmentWordsUAX29(text, segmentOptions)) {
+      const token = sliceBySpan(text, span);
+      if (accepts(token)) tallyToken(tally, token, span);
+    }
+    closePart(tally);
+  }
+  return finishDispersion(tally, "document", normalizedOptions);
+}
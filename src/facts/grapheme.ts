@@ -0,0 +1,46 @@
+import type { Provenance, Span, TextInput } from "../core/types.ts";
+import { countGraphemeNgrams } from "./internal.ts";
+
+/**
+ * GraphemeNgramOptions defines an exported structural contract.
+ */
+export interface GraphemeNgramOptions {
+  n: number;
+  minCount?: number;
+  topK?: number;
+  algorithmRevision?: string;
+}
+
+/**
+ * GraphemeNgramItem defines an exported structural contract.
+ * `graphemes` holds cluster keys; `firstSpan` covers the first raw occurrence.
+ */
+export interface GraphemeNgramItem {
+  graphemes: string[];
+  count: number;
+  firstSpan: Span;
+}
+
+/**
+ * GraphemeNgramResult defines an exported structural contract.
+ */
+export interface GraphemeNgramResult {
+  items: GraphemeNgramItem[];
+  totalNgrams: number;
+  truncated?: boolean;
+  provenance: Provenance;
+}
+
+/**
+ * Grapheme cluster n-gram counts using UAX #29 segmentation.
+ * Windows slide over every cluster, whitespace included; `totalNgrams` counts all windows
+ * before `minCount` and `topK` are applied. Clusters are counted raw; `canonicalGraphemeNgrams`
+ * (`textfacts/compare`) counts by canonical key.
+ * Units: UTF-16 code units.
+ */
+export function graphemeNgrams(
+  input: TextInput,
+  options: GraphemeNgramOptions,
+): GraphemeNgramResult {
+  return countGraphemeNgrams(input, options, "raw", (raw) => raw);
+}
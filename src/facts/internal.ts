@@ -0,0 +1,101 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { segmentGraphemes } from "../segment/grapheme.ts";
+import type { GraphemeNgramItem, GraphemeNgramOptions, GraphemeNgramResult } from "./grapheme.ts";
+
+/**
+ * Compare token sequences element-wise by code point; shorter prefixes sort first.
+ */
+export function compareTokensLex(leftTokens: string[], rightTokens: string[]): number {
+  const tokenCount = Math.min(leftTokens.length, rightTokens.length);
+  for (let index = 0; index < tokenCount; index += 1) {
+    const tokenCompare = compareByCodePoint(leftTokens[index] ?? "", rightTokens[index] ?? "");
+    if (tokenCompare !== 0) return tokenCompare;
+  }
+  return leftTokens.length - rightTokens.length;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX29_SPEC = "https://unicode.org/reports/tr29/";
+
+/**
+ * Shared body of the grapheme n-gram facts; `keyOf` maps each raw cluster to the
+ * key named by `canonicalKey`, which provenance records.
+ */
+export function countGraphemeNgrams(
+  input: TextInput,
+  options: GraphemeNgramOptions,
+  canonicalKey: string,
+  keyOf: (raw: string) => string,
+): GraphemeNgramResult {
+  const ngramSize = Math.max(1, Math.floor(options.n));
+  const minCount = Math.max(1, Math.floor(options.minCount ?? 1));
+  const normalizedOptions = {
+    n: ngramSize,
+    minCount,
+    canonicalKey,
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...(options.topK !== undefined ? { topK: Math.max(0, Math.floor(options.topK)) } : {}),
+  };
+  const { text } = normalizeInput(input);
+  const counts = new Map<string, GraphemeNgramItem>();
+  const keys: string[] = [];
+  const spans: Span[] = [];
+  let totalNgrams = 0;
+
+  for (const span of segmentGraphemes(text)) {
+    const raw = text.slice(span.startCU, span.endCU);
+    keys.push(keyOf(raw));
+    spans.push(span);
+    if (keys.length < ngramSize) continue;
+
+    const graphemes = keys.slice(0, ngramSize);
+    const key = JSON.stringify(graphemes);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      counts.set(key, {
+        graphemes,
+        count: 1,
+        firstSpan: { startCU: spans[0]?.startCU ?? span.startCU, endCU: span.endCU },
+      });
+    }
+    totalNgrams += 1;
+    keys.shift();
+    spans.shift();
+  }
+
+  const items = Array.from(counts.values()).filter((item) => item.count >= minCount);
+  items.sort((a, b) => {
+    if (a.count !== b.count) return b.count - a.count;
+    return compareTokensLex(a.graphemes, b.graphemes);
+  });
+
+  const result: GraphemeNgramResult = {
+    items,
+    totalNgrams,
+    provenance: createProvenance(
+      {
+        name: "Facts.GraphemeNgrams",
+        spec: UAX29_SPEC,
+        revisionOrDate: normalizedOptions.algorithmRevision,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      normalizedOptions,
+      {
+        text: "utf16-code-unit",
+        token: "uax29-grapheme",
+        grapheme: "uax29-grapheme",
+      },
+    ),
+  };
+  if (normalizedOptions.topK !== undefined && items.length > normalizedOptions.topK) {
+    result.items = items.slice(0, normalizedOptions.topK);
+    result.truncated = true;
+  }
+  return result;
+}
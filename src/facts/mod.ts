@@ -1 +1,7 @@
 export * from "./word.ts";
+export * from "./grapheme.ts";
+export * from "./collocation.ts";
+export * from "./token-filter.ts";
+export * from "./dispersion.ts";
+export * from "./readability.ts";
+export * from "./numeric.ts";
@@ -0,0 +1,286 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { Provenance, Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { segmentWordsWithStatus } from "../segment/word-status.ts";
+import {
+  type WordSegmentOptions,
+  type WordTailoring,
+  normalizeWordTailorings,
+} from "../segment/word.ts";
+import { generalCategoryAt } from "../unicode/general-category.ts";
+import { scriptNameAt } from "../unicode/script.ts";
+
+/**
+ * DecimalDigit is the value and digit system of one General_Category=Nd code point.
+ * `system` is a stable id: `ascii`, `fullwidth`, `arabic-indic`, `extended-arabic-indic`,
+ * a few named variants for scripts or symbol sets with several digit runs, otherwise the
+ * lowercased script name of the digits (`devanagari`, `bengali`, ...).
+ */
+export interface DecimalDigit {
+  value: number;
+  system: string;
+  zero: number;
+}
+
+/**
+ * NumericFactsOptions defines an exported structural contract.
+ */
+export interface NumericFactsOptions {
+  algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+}
+
+/**
+ * NumericToken describes one numeric UAX #29 word segment.
+ * - `systems`: digit systems in order of first appearance.
+ * - `value`: canonical decimal string (no leading or trailing zeros, `.` as decimal point),
+ *   present only when the token has a single digit system and an unambiguous reading.
+ * - `ambiguous`: a lone `,` or `.` after one to three digits (not starting with 0) and
+ *   before exactly three could be a decimal point or a group separator, so no value is given.
+ */
+export interface NumericToken {
+  span: Span;
+  text: string;
+  systems: string[];
+  mixedSystems: boolean;
+  value?: string;
+  ambiguous?: boolean;
+}
+
+/**
+ * DigitSystemCount defines an exported structural contract.
+ */
+export interface DigitSystemCount {
+  system: string;
+  tokens: number;
+}
+
+/**
+ * NumericFactsResult defines an exported structural contract.
+ */
+export interface NumericFactsResult {
+  tokens: NumericToken[];
+  systems: DigitSystemCount[];
+  mixedSystemTokens: number;
+  provenance: Provenance;
+}
+
+type Separator = "comma" | "dot" | "arabicDecimal" | "arabicGroup";
+
+interface SeparatorMark {
+  kind: Separator;
+  /** Number of digits before the separator. */
+  at: number;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX29_SPEC = "https://unicode.org/reports/tr29/";
+const NAMED_DIGIT_SYSTEMS: ReadonlyMap<number, string> = new Map([
+  [0x0030, "ascii"],
+  [0xff10, "fullwidth"],
+  [0x0660, "arabic-indic"],
+  [0x06f0, "extended-arabic-indic"],
+  [0x1040, "myanmar"],
+  [0x1090, "myanmar-shan"],
+  [0xa9f0, "myanmar-tai-laing"],
+  [0x116d0, "myanmar-pao"],
+  [0x116da, "myanmar-eastern-pwo-karen"],
+  [0x1a80, "tai-tham-hora"],
+  [0x1a90, "tai-tham-tham"],
+  [0x1ccf0, "outlined"],
+  [0x1d7ce, "mathematical-bold"],
+  [0x1d7d8, "mathematical-double-struck"],
+  [0x1d7e2, "mathematical-sans-serif"],
+  [0x1d7ec, "mathematical-sans-serif-bold"],
+  [0x1d7f6, "mathematical-monospace"],
+  [0x1fbf0, "segmented"],
+]);
+const SEPARATORS: ReadonlyMap<number, Separator> = new Map([
+  [0x002c, "comma"],
+  [0xff0c, "comma"],
+  [0x002e, "dot"],
+  [0xff0e, "dot"],
+  [0x066b, "arabicDecimal"],
+  [0x066c, "arabicGroup"],
+]);
+const zeroCache = new Map<number, number>();
+
+function isDecimalDigit(codePoint: number): boolean {
+  return generalCategoryAt(codePoint) === "Nd";
+}
+
+/**
+ * Nd digits are encoded in contiguous runs of ten, ascending from zero, so the zero is found
+ * by walking back to the start of the enclosing Nd run.
+ */
+function digitZero(codePoint: number): number {
+  const cached = zeroCache.get(codePoint);
+  if (cached !== undefined) return cached;
+  let start = codePoint;
+  while (start > 0 && isDecimalDigit(start - 1)) start -= 1;
+  const zero = codePoint - ((codePoint - start) % 10);
+  zeroCache.set(codePoint, zero);
+  return zero;
+}
+
+function digitSystemName(zero: number): string {
+  return NAMED_DIGIT_SYSTEMS.get(zero) ?? scriptNameAt(zero).toLowerCase().replace(/_/g, "-");
+}
+
+/**
+ * Decimal digit value and digit system for a code point, or undefined if it is not Nd.
+ * Units: Unicode scalar values.
+ */
+export function decimalDigitAt(codePoint: number): DecimalDigit | undefined {
+  if (!isDecimalDigit(codePoint)) return undefined;
+  const zero = digitZero(codePoint);
+  return { value: codePoint - zero, system: digitSystemName(zero), zero };
+}
+
+function isValidGrouping(groups: number[]): boolean {
+  if (groups.length < 2) return true;
+  const last = groups[groups.length - 1];
+  const first = groups[0] ?? 0;
+  const middle = groups.slice(1, -1);
+  if (last !== 3 || first < 1) return false;
+  // Western 1,234,567 or Indian 12,34,567 grouping.
+  if (first <= 3 && middle.every((size) => size === 3)) return true;
+  return first <= 2 && middle.every((size) => size === 2);
+}
+
+function canonicalDecimal(integer: string, fraction: string): string {
+  const whole = integer.replace(/^0+/, "") || "0";
+  const part = fraction.replace(/0+$/, "");
+  return part.length > 0 ? `${whole}.${part}` : whole;
+}
+
+/**
+ * Read `digits` with separators at `marks`; returns undefined when no single reading exists
+ * and `"ambiguous"` for a lone comma or dot that could be either separator.
+ */
+function readDecimal(digits: string, marks: SeparatorMark[]): string | "ambiguous" | undefined {
+  if (marks.length === 0) return canonicalDecimal(digits, "");
+  const kinds = new Set(marks.map((mark) => mark.kind));
+  const lastMark = marks[marks.length - 1];
+  let decimal: SeparatorMark | undefined;
+  if (kinds.has("arabicDecimal")) {
+    decimal = lastMark?.kind === "arabicDecimal" ? lastMark : undefined;
+    if (!decimal) return undefined;
+  } else if (kinds.size === 2 && !kinds.has("arabicGroup")) {
+    decimal = lastMark;
+  } else if (kinds.size === 1 && marks.length === 1 && lastMark?.kind !== "arabicGroup") {
+    const fractionDigits = digits.length - (lastMark?.at ?? 0);
+    const couldGroup = (lastMark?.at ?? 0) <= 3 && !digits.startsWith("0");
+    if (fractionDigits === 3 && couldGroup) return "ambiguous";
+    decimal = lastMark;
+  } else if (kinds.size !== 1) {
+    return undefined;
+  }
+
+  const groupMarks = marks.filter((mark) => mark !== decimal);
+  const groupKinds = new Set(groupMarks.map((mark) => mark.kind));
+  if (groupKinds.size > 1 || (decimal && groupKinds.has(decimal.kind))) return undefined;
+  const integerEnd = decimal ? decimal.at : digits.length;
+  const groups: number[] = [];
+  let previous = 0;
+  for (const mark of groupMarks) {
+    groups.push(mark.at - previous);
+    previous = mark.at;
+  }
+  groups.push(integerEnd - previous);
+  if (!isValidGrouping(groups)) return undefined;
+  return canonicalDecimal(digits.slice(0, integerEnd), digits.slice(integerEnd));
+}
+
+function describeNumericToken(text: string, span: Span): NumericToken {
+  const systems: string[] = [];
+  const marks: SeparatorMark[] = [];
+  let digits = "";
+  let readable = true;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    const digit = decimalDigitAt(codePoint);
+    if (digit) {
+      if (!systems.includes(digit.system)) systems.push(digit.system);
+      digits += String(digit.value);
+      continue;
+    }
+    const separator = SEPARATORS.get(codePoint);
+    if (separator && digits.length > 0) {
+      marks.push({ kind: separator, at: digits.length });
+    } else {
+      readable = false;
+    }
+  }
+  const token: NumericToken = { span, text, systems, mixedSystems: systems.length > 1 };
+  if (!readable || token.mixedSystems || digits.length === 0) return token;
+  if (marks.some((mark, index) => mark.at === (marks[index - 1]?.at ?? 0))) return token;
+  if ((marks[marks.length - 1]?.at ?? 0) === digits.length && marks.length > 0) return token;
+  const value = readDecimal(digits, marks);
+  if (value === "ambiguous") {
+    token.ambiguous = true;
+  } else if (value !== undefined) {
+    token.value = value;
+  }
+  return token;
+}
+
+/**
+ * Numeric UAX #29 word segments with their digit systems and, where unambiguous, their value.
+ * Recognized separators are `,` `.` (and fullwidth forms) and the Arabic decimal and
+ * thousands separators; any other non-digit content leaves the value unset.
+ * Units: UTF-16 code units.
+ */
+export function numericFacts(
+  input: TextInput,
+  options: NumericFactsOptions = {},
+): NumericFactsResult {
+  const tailorings = normalizeWordTailorings(options.tailorings);
+  const normalizedOptions = {
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...(tailorings.length > 0 ? { tailorings } : {}),
+  };
+  const segmentOptions: WordSegmentOptions = {
+    algorithmRevision: normalizedOptions.algorithmRevision,
+  };
+  if (tailorings.length > 0) segmentOptions.tailorings = tailorings;
+  const { text } = normalizeInput(input);
+
+  const tokens: NumericToken[] = [];
+  const systemCounts = new Map<string, number>();
+  let mixedSystemTokens = 0;
+  for (const segment of segmentWordsWithStatus(text, segmentOptions)) {
+    if (segment.status !== "numeric") continue;
+    const span = { startCU: segment.startCU, endCU: segment.endCU };
+    const token = describeNumericToken(text.slice(span.startCU, span.endCU), span);
+    tokens.push(token);
+    if (token.mixedSystems) mixedSystemTokens += 1;
+    for (const system of token.systems) {
+      systemCounts.set(system, (systemCounts.get(system) ?? 0) + 1);
+    }
+  }
+  const systems = Array.from(systemCounts, ([system, count]) => ({ system, tokens: count }));
+  systems.sort((a, b) => b.tokens - a.tokens || compareByCodePoint(a.system, b.system));
+
+  return {
+    tokens,
+    systems,
+    mixedSystemTokens,
+    provenance: createProvenance(
+      {
+        name: "Facts.Numeric",
+        spec: UAX29_SPEC,
+        revisionOrDate: normalizedOptions.algorithmRevision,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      normalizedOptions,
+      {
+        text: "utf16-code-unit",
+        token: "uax29-word",
+        word: "uax29-word",
+      },
+    ),
+  };
+}
@@ -0,0 +1,199 @@
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import { sliceBySpan } from "../core/span.ts";
+import type { Provenance, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import type { Ratio } from "../profile/compare.ts";
+import { segmentGraphemes } from "../segment/grapheme.ts";
+import {
+  type SentenceSegmentOptions,
+  normalizeSentenceSuppressions,
+  segmentSentencesUAX29,
+} from "../segment/sentence.ts";
+import {
+  type WordSegmentOptions,
+  type WordTailoring,
+  normalizeWordTailorings,
+  segmentWordsUAX29,
+} from "../segment/word.ts";
+import { type WordTokenFilter, compileWordTokenFilter } from "./token-filter.ts";
+
+/**
+ * ReadabilityCharacterUnit declares what one character is: a UAX #29 grapheme cluster or a
+ * Unicode scalar value.
+ */
+export type ReadabilityCharacterUnit = "grapheme" | "codePoint";
+
+/**
+ * ReadabilityOptions defines an exported structural contract.
+ * - `characterUnit`: default `grapheme`.
+ * - `filter`: which UAX #29 word segments count as words; default `word-like`.
+ * - `longWordThreshold`: LIX long words have more characters than this; default 6.
+ */
+export interface ReadabilityOptions {
+  characterUnit?: ReadabilityCharacterUnit;
+  filter?: WordTokenFilter;
+  longWordThreshold?: number;
+  algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+  sentenceSuppressions?: string[];
+}
+
+/**
+ * ReadabilityCounts defines an exported structural contract.
+ * Characters are counted inside counted words only; sentences count only if they contain
+ * a counted word.
+ */
+export interface ReadabilityCounts {
+  characters: number;
+  words: number;
+  sentences: number;
+  longWords: number;
+}
+
+/**
+ * ReadabilityScore is an exact score with the exact ratios it was computed from.
+ */
+export interface ReadabilityScore {
+  ratio: Ratio;
+  formula: string;
+  inputs: Record<string, Ratio>;
+}
+
+/**
+ * ReadabilityResult defines an exported structural contract.
+ */
+export interface ReadabilityResult {
+  counts: ReadabilityCounts;
+  scores: {
+    ari: ReadabilityScore;
+    colemanLiau: ReadabilityScore;
+    lix: ReadabilityScore;
+  };
+  provenance: Provenance;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX29_SPEC = "https://unicode.org/reports/tr29/";
+const DEFAULT_LONG_WORD_THRESHOLD = 6;
+const READABILITY_FORMULAS = {
+  ari: "ARI = 4.71 * C / W + 0.5 * W / S - 21.43",
+  colemanLiau: "CLI = 0.0588 * L - 0.296 * S100 - 15.8, L = 100 * C / W, S100 = 100 * S / W",
+  lix: "LIX = W / S + 100 * LW / W",
+} as const;
+
+function ratio(num: bigint, den: bigint): Ratio {
+  if (den === 0n) return { num: "0", den: "1" };
+  return { num: num.toString(), den: den.toString() };
+}
+
+function countCharacters(token: string, unit: ReadabilityCharacterUnit): number {
+  let count = 0;
+  if (unit === "grapheme") {
+    for (const _span of segmentGraphemes(token)) count += 1;
+    return count;
+  }
+  for (const _char of token) count += 1;
+  return count;
+}
+
+/**
+ * Character-based readability formulas: Automated Readability Index, Coleman–Liau and LIX.
+ * Scores and their inputs are exact ratios over the declared counts; with no words or no
+ * sentences every ratio is 0/1.
+ * Units: UAX #29 graphemes or Unicode scalar values, per `characterUnit`.
+ */
+export function readabilityFacts(
+  input: TextInput,
+  options: ReadabilityOptions = {},
+): ReadabilityResult {
+  const filter = compileWordTokenFilter(options.filter ?? "word-like");
+  const tailorings = normalizeWordTailorings(options.tailorings);
+  const suppressions = normalizeSentenceSuppressions(options.sentenceSuppressions);
+  const normalizedOptions = {
+    characterUnit: options.characterUnit ?? "grapheme",
+    filter: filter.config,
+    longWordThreshold: Math.max(
+      0,
+      Math.floor(options.longWordThreshold ?? DEFAULT_LONG_WORD_THRESHOLD),
+    ),
+    formulas: READABILITY_FORMULAS,
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...(tailorings.length > 0 ? { tailorings } : {}),
+    ...(suppressions.length > 0 ? { sentenceSuppressions: suppressions } : {}),
+  };
+  const { algorithmRevision, characterUnit, longWordThreshold } = normalizedOptions;
+  const wordOptions: WordSegmentOptions = { algorithmRevision };
+  if (tailorings.length > 0) wordOptions.tailorings = tailorings;
+  const sentenceOptions: SentenceSegmentOptions = { algorithmRevision };
+  if (suppressions.length > 0) sentenceOptions.suppressions = suppressions;
+  const { text } = normalizeInput(input);
+
+  const sentenceEnds: number[] = [];
+  for (const span of segmentSentencesUAX29(text, sentenceOptions)) sentenceEnds.push(span.endCU);
+  const counts: ReadabilityCounts = { characters: 0, words: 0, sentences: 0, longWords: 0 };
+  let sentence = 0;
+  let countedSentence = -1;
+  for (const span of segmentWordsUAX29(text, wordOptions)) {
+    while (span.startCU >= (sentenceEnds[sentence] ?? text.length)) sentence += 1;
+    const token = sliceBySpan(text, span);
+    if (!filter.accepts(token)) continue;
+    const characters = countCharacters(token, characterUnit);
+    counts.characters += characters;
+    counts.words += 1;
+    if (characters > longWordThreshold) counts.longWords += 1;
+    if (countedSentence !== sentence) {
+      counts.sentences += 1;
+      countedSentence = sentence;
+    }
+  }
+
+  const c = BigInt(counts.characters);
+  const w = BigInt(counts.words);
+  const s = BigInt(counts.sentences);
+  const lw = BigInt(counts.longWords);
+  const defined = w > 0n && s > 0n;
+  const exact = (num: bigint, den: bigint) => (defined ? ratio(num, den) : ratio(0n, 0n));
+
+  return {
+    counts,
+    scores: {
+      ari: {
+        ratio: exact(471n * c * s + 50n * w * w - 2143n * w * s, 100n * w * s),
+        formula: READABILITY_FORMULAS.ari,
+        inputs: { charactersPerWord: exact(c, w), wordsPerSentence: exact(w, s) },
+      },
+      colemanLiau: {
+        ratio: exact(588n * c - 2960n * s - 1580n * w, 100n * w),
+        formula: READABILITY_FORMULAS.colemanLiau,
+        inputs: {
+          charactersPer100Words: exact(100n * c, w),
+          sentencesPer100Words: exact(100n * s, w),
+        },
+      },
+      lix: {
+        ratio: exact(w * w + 100n * lw * s, s * w),
+        formula: READABILITY_FORMULAS.lix,
+        inputs: { wordsPerSentence: exact(w, s), longWordPercent: exact(100n * lw, w) },
+      },
+    },
+    provenance: createProvenance(
+      {
+        name: "Facts.Readability",
+        spec: UAX29_SPEC,
+        revisionOrDate: algorithmRevision,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      normalizedOptions,
+      {
+        text: "utf16-code-unit",
+        token: "uax29-word",
+        word: "uax29-word",
+        sentence: "uax29-sentence",
+        ...(characterUnit === "grapheme"
+          ? { grapheme: "uax29-grapheme" }
+          : { codePoint: "unicode-code-point" }),
+      },
+    ),
+  };
+}
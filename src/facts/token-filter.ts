@@ -0,0 +1,190 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { hashCanonicalSync } from "../core/hash.ts";
+import { WORD_LIKE_REVISION, isWordLikeToken } from "../segment/word-class.ts";
+import { GENERAL_CATEGORY_NAMES, generalCategoryAt } from "../unicode/general-category.ts";
+import { SCRIPT_NAMES, Script, scriptExtAt } from "../unicode/script.ts";
+
+/**
+ * WordTokenFilterSet declares caller-supplied token filters; all given parts must pass.
+ * - `base`: the built-in filter applied first (default `all`).
+ * - `includeTerms` / `excludeTerms`: term sets (e.g. stopwords) matched on `tokenKey` keys,
+ *   or on raw tokens without one.
+ * - `includeCategories` / `excludeCategories`: General_Category names (`Nd`) or major
+ *   classes (`L*`). Include requires every code point to match; exclude drops a token if any
+ *   code point matches.
+ * - `includeScripts` / `excludeScripts`: script names matched on Script_Extensions, with the
+ *   same every/any rule.
+ * Marks and format characters are ignored by category and script filters; Common and
+ * Inherited code points are ignored by script filters.
+ */
+export interface WordTokenFilterSet {
+  base?: "all" | "word-like";
+  tokenKey?: WordTokenKey;
+  includeTerms?: string[];
+  excludeTerms?: string[];
+  includeCategories?: string[];
+  excludeCategories?: string[];
+  includeScripts?: string[];
+  excludeScripts?: string[];
+}
+
+/**
+ * WordTokenKey maps word tokens to the keys that keyed counts and term filters compare; `config` stands in
+ * for `keyOf` in provenance. `variantTokenKey` (`textfacts/variants`) builds the
+ * `buildVariantIndex` keys.
+ */
+export interface WordTokenKey {
+  config: unknown;
+  keyOf: (token: string) => string;
+}
+
+/**
+ * WordTokenFilter defines an exported type contract.
+ */
+export type WordTokenFilter = "all" | "word-like" | WordTokenFilterSet;
+
+/**
+ * CompiledWordTokenFilter pairs a token predicate with the canonical config that
+ * provenance hashes; term sets appear only as digests of their sorted canonical keys.
+ */
+export interface CompiledWordTokenFilter {
+  config: unknown;
+  accepts: (token: string) => boolean;
+}
+
+const CATEGORY_PATTERN = /^[A-Z]\*$/;
+const SCRIPT_NAME_LIST: readonly string[] = SCRIPT_NAMES;
+
+function rawKey(token: string): string {
+  return token;
+}
+
+function sortedUnique(values: Iterable<string>): string[] {
+  return [...new Set(values)].sort(compareByCodePoint);
+}
+
+function normalizeCategories(patterns: readonly string[] = []): string[] {
+  for (const pattern of patterns) {
+    const known = (GENERAL_CATEGORY_NAMES as readonly string[]).includes(pattern);
+    const major =
+      CATEGORY_PATTERN.test(pattern) &&
+      GENERAL_CATEGORY_NAMES.some((name) => name.startsWith(pattern.charAt(0)));
+    if (!known && !major) throw new RangeError(`Unknown general category: ${pattern}`);
+  }
+  return sortedUnique(patterns);
+}
+
+function normalizeScripts(names: readonly string[] = []): string[] {
+  for (const name of names) {
+    if (!SCRIPT_NAME_LIST.includes(name)) throw new RangeError(`Unknown script: ${name}`);
+  }
+  return sortedUnique(names);
+}
+
+function normalizeTerms(
+  terms: readonly string[] | undefined,
+  keyOf: (token: string) => string,
+): string[] {
+  const keys: string[] = [];
+  for (const term of terms ?? []) {
+    if (term.length === 0) throw new RangeError("Filter terms must be non-empty strings");
+    keys.push(keyOf(term));
+  }
+  return sortedUnique(keys);
+}
+
+function isIgnoredCategory(category: string): boolean {
+  return category.startsWith("M") || category === "Cf";
+}
+
+function matchesCategory(category: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("*") ? category.startsWith(pattern.charAt(0)) : category === pattern,
+  );
+}
+
+/**
+ * Per code point checks; `every` for include lists, `some` for exclude lists.
+ */
+function passesCodePointFilters(
+  token: string,
+  categories: { include: string[]; exclude: string[] },
+  scripts: { include: Set<number>; exclude: Set<number> },
+): boolean {
+  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
+    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
+    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
+    const category = generalCategoryAt(codePoint);
+    if (isIgnoredCategory(category)) continue;
+    if (categories.include.length > 0 && !matchesCategory(category, categories.include)) {
+      return false;
+    }
+    if (categories.exclude.length > 0 && matchesCategory(category, categories.exclude)) {
+      return false;
+    }
+    if (scripts.include.size === 0 && scripts.exclude.size === 0) continue;
+    const extensions = scriptExtAt(codePoint).filter(
+      (script) => script !== Script.Common && script !== Script.Inherited,
+    );
+    if (extensions.length === 0) continue;
+    if (scripts.include.size > 0 && !extensions.some((script) => scripts.include.has(script))) {
+      return false;
+    }
+    if (extensions.some((script) => scripts.exclude.has(script))) return false;
+  }
+  return true;
+}
+
+/**
+ * Validate a token filter and build its predicate.
+ * Unknown categories or scripts and empty terms throw a RangeError.
+ */
+export function compileWordTokenFilter(filter: WordTokenFilter = "all"): CompiledWordTokenFilter {
+  if (filter === "all") return { config: filter, accepts: () => true };
+  if (filter === "word-like") {
+    return { config: { base: filter, wordLike: WORD_LIKE_REVISION }, accepts: isWordLikeToken };
+  }
+
+  const base = filter.base ?? "all";
+  const keyOf = filter.tokenKey?.keyOf ?? rawKey;
+  const includeTerms = normalizeTerms(filter.includeTerms, keyOf);
+  const excludeTerms = normalizeTerms(filter.excludeTerms, keyOf);
+  const categories = {
+    include: normalizeCategories(filter.includeCategories),
+    exclude: normalizeCategories(filter.excludeCategories),
+  };
+  const scriptNames = {
+    include: normalizeScripts(filter.includeScripts),
+    exclude: normalizeScripts(filter.excludeScripts),
+  };
+  const scripts = {
+    include: new Set(scriptNames.include.map((name) => SCRIPT_NAME_LIST.indexOf(name))),
+    exclude: new Set(scriptNames.exclude.map((name) => SCRIPT_NAME_LIST.indexOf(name))),
+  };
+
+  const config: Record<string, unknown> = { base };
+  if (base === "word-like") config.wordLike = WORD_LIKE_REVISION;
+  if (filter.tokenKey) config.tokenKey = filter.tokenKey.config;
+  if (includeTerms.length > 0) config.includeTermsDigest = hashCanonicalSync(includeTerms);
+  if (excludeTerms.length > 0) config.excludeTermsDigest = hashCanonicalSync(excludeTerms);
+  if (categories.include.length > 0) config.includeCategories = categories.include;
+  if (categories.exclude.length > 0) config.excludeCategories = categories.exclude;
+  if (scriptNames.include.length > 0) config.includeScripts = scriptNames.include;
+  if (scriptNames.exclude.length > 0) config.excludeScripts = scriptNames.exclude;
+
+  const included = new Set(includeTerms);
+  const excluded = new Set(excludeTerms);
+  const hasTerms = included.size > 0 || excluded.size > 0;
+  return {
+    config,
+    accepts: (token) => {
+      if (base === "word-like" && !isWordLikeToken(token)) return false;
+      if (hasTerms) {
+        const key = keyOf(token);
+        if (included.size > 0 && !included.has(key)) return false;
+        if (excluded.has(key)) return false;
+      }
+      return passesCodePointFilters(token, categories, scripts);
+    },
+  };
+}
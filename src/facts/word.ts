@@ -1,16 +1,21 @@
+import { canonicalModelStringify } from "../core/canonical.ts";
 import { compareByCodePoint } from "../core/compare.ts";
+import { TextfactsError } from "../core/error.ts";
 import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
 import { sliceBySpan } from "../core/span.ts";
 import type { Provenance, TextInput } from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
-import { segmentWordsUAX29 } from "../segment/word.ts";
-import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
-
-/**
- * WordTokenFilter defines an exported type contract.
- */
-export type WordTokenFilter = "all" | "word-like";
+import type { Ratio } from "../profile/compare.ts";
+import { resolveWordBoundary } from "../segment/internal.ts";
+import {
+  type WordSegmentOptions,
+  type WordTailoring,
+  normalizeWordTailorings,
+  segmentWordsUAX29,
+} from "../segment/word.ts";
+import { compareTokensLex } from "./internal.ts";
+import { type WordTokenFilter, type WordTokenKey, compileWordTokenFilter } from "./token-filter.ts";
 
 /**
  * WordFrequencyOptions defines an exported structural contract.
@@ -18,14 +23,29 @@ export type WordTokenFilter = "all" | "word-like";
 export interface WordFrequencyOptions {
   filter?: WordTokenFilter;
   algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+  /** Count by this key instead of the raw token, e.g. `variantTokenKey` (`textfacts/variants`). */
+  tokenKey?: WordTokenKey;
+}
+
+/**
+ * WordFormCount defines an exported structural contract.
+ */
+export interface WordFormCount {
+  form: string;
+  count: number;
 }
 
 /**
  * WordFrequencyItem defines an exported structural contract.
+ * With a `tokenKey`, `token` is the most frequent surface form and `forms`
+ * lists every contributing form.
  */
 export interface WordFrequencyItem {
   token: string;
   count: number;
+  key?: string;
+  forms?: WordFormCount[];
 }
 
 /**
@@ -44,6 +64,7 @@ export interface WordNgramOptions {
   n: number;
   filter?: WordTokenFilter;
   algorithmRevision?: string;
+  tailorings?: WordTailoring[];
 }
 
 /**
@@ -70,6 +91,7 @@ export interface WordCooccurrenceOptions {
   windowSize: number;
   filter?: WordTokenFilter;
   algorithmRevision?: string;
+  tailorings?: WordTailoring[];
 }
 
 /**
@@ -89,39 +111,113 @@ export interface WordCooccurrenceResult {
   provenance: Provenance;
 }
 
+/**
+ * WordFactKind names the word fact a builder state belongs to.
+ */
+export type WordFactKind = "wordFrequencies" | "wordNgrams" | "wordCooccurrence";
+
+/**
+ * WordFactState is the serializable state of a word fact builder.
+ * `items` are exact counts (frequency items hold one token); `window` and `pending`
+ * carry the unfinished tail of the current text.
+ */
+export interface WordFactState {
+  version: 1;
+  kind: WordFactKind;
+  configHash: string;
+  total: number;
+  items: WordNgramItem[];
+  window: string[];
+  pending: string;
+}
+
+/**
+ * WordFactBuilder defines an exported structural contract.
+ * `merge` and resuming throw a TextfactsError (FACTS_INCOMPATIBLE_STATE) when the kind or
+ * provenance config hash differs.
+ */
+export interface WordFactBuilder<TResult> {
+  update(chunk: TextInput): void;
+  merge(other: WordFactBuilder<TResult> | WordFactState | string): void;
+  finalize(): TResult;
+  toState(): WordFactState;
+  serialize(): string;
+}
+
+/**
+ * LexicalRichnessOptions defines an exported structural contract.
+ * `mattrWindow` is the moving-average TTR window in tokens (default 50).
+ */
+export interface LexicalRichnessOptions {
+  filter?: WordTokenFilter;
+  mattrWindow?: number;
+  algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+}
+
+/**
+ * FrequencySpectrumItem is V(m): the number of types occurring exactly m times.
+ */
+export interface FrequencySpectrumItem {
+  m: number;
+  types: number;
+}
+
+/**
+ * RichnessMeasure is an exact ratio with the id of the formula that produced it.
+ */
+export interface RichnessMeasure {
+  ratio: Ratio;
+  formula: string;
+}
+
+/**
+ * LexicalRichnessResult defines an exported structural contract.
+ */
+export interface LexicalRichnessResult {
+  tokens: number;
+  types: number;
+  hapaxLegomena: number;
+  disLegomena: number;
+  spectrum: FrequencySpectrumItem[];
+  measures: {
+    ttr: RichnessMeasure;
+    yulesK: RichnessMeasure;
+    simpsonsD: RichnessMeasure;
+    mattr: RichnessMeasure;
+  };
+  provenance: Provenance;
+}
+
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const UAX29_SPEC = "https://unicode.org/reports/tr29/";
+const DEFAULT_MATTR_WINDOW = 50;
+const WORD_FACT_STATE_VERSION = 1;
+const RICHNESS_FORMULAS = {
+  ttr: "TTR = V / N",
+  yulesK: "K = 10^4 * (sum_m m^2 V(m) - N) / N^2",
+  simpsonsD: "D = sum_m V(m) m (m - 1) / (N (N - 1))",
+  mattr: "MATTR = sum_i V_i / (W (N - W + 1)), W = min(window, N)",
+} as const;
 
-const WORDLIKE_PROPS = new Set<number>([
-  WordBreakPropertyId.ALetter,
-  WordBreakPropertyId.Hebrew_Letter,
-  WordBreakPropertyId.Numeric,
-  WordBreakPropertyId.Katakana,
-  WordBreakPropertyId.ExtendNumLet,
-]);
-
-function isWordLikeToken(token: string): boolean {
-  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
-    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
-    const wordBreakPropertyId = getWordBreakPropertyId(codePoint);
-    if (WORDLIKE_PROPS.has(wordBreakPropertyId)) return true;
-    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
-  }
-  return false;
+function ratio(num: bigint, den: bigint): Ratio {
+  if (den === 0n) return { num: "0", den: "1" };
+  return { num: num.toString(), den: den.toString() };
 }
 
-function compareTokensLex(leftTokens: string[], rightTokens: string[]): number {
-  const tokenCount = Math.min(leftTokens.length, rightTokens.length);
-  for (let index = 0; index < tokenCount; index += 1) {
-    const tokenCompare = compareByCodePoint(leftTokens[index] ?? "", rightTokens[index] ?? "");
-    if (tokenCompare !== 0) return tokenCompare;
-  }
-  return leftTokens.length - rightTokens.length;
+function buildSegmentOptions(options: {
+  algorithmRevision?: string;
+  tailorings?: WordTailoring[];
+}): WordSegmentOptions {
+  const segmentOptions: WordSegmentOptions = {};
+  if (options.algorithmRevision) segmentOptions.algorithmRevision = options.algorithmRevision;
+  const tailorings = normalizeWordTailorings(options.tailorings);
+  if (tailorings.length > 0) segmentOptions.tailorings = tailorings;
+  return segmentOptions;
 }
 
-function shouldInclude(token: string, filter: WordTokenFilter): boolean {
-  if (filter === "all") return true;
-  return isWordLikeToken(token);
+function tailoringOptions(segmentOptions: WordSegmentOptions): { tailorings?: WordTailoring[] } {
+  return segmentOptions.tailorings ? { tailorings: segmentOptions.tailorings } : {};
 }
 
 function buildProvenance(name: string, options: unknown): Provenance {
@@ -143,97 +239,364 @@ function buildProvenance(name: string, options: unknown): Provenance {
   );
 }
 
-/**
- * Word frequency counts using UAX #29 segmentation.
- * Units: bytes (UTF-8).
- */
-export function wordFrequencies(
-  input: TextInput,
-  options: WordFrequencyOptions = {},
-): WordFrequencyResult {
-  const filter = options.filter ?? "all";
-  const counts = new Map<string, number>();
-  let totalTokens = 0;
-  const { text } = normalizeInput(input);
-  const segmentOptions = options.algorithmRevision
-    ? { algorithmRevision: options.algorithmRevision }
-    : {};
-  const normalizedOptions = {
-    filter,
-    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
-  };
+interface WordCountState {
+  counts: Map<string, { tokens: string[]; count: number }>;
+  total: number;
+  window: string[];
+}
 
-  for (const span of segmentWordsUAX29(text, segmentOptions)) {
-    const token = sliceBySpan(text, span);
-    if (!shouldInclude(token, filter)) continue;
-    totalTokens += 1;
-    counts.set(token, (counts.get(token) ?? 0) + 1);
+type WordCountStep = (state: WordCountState, token: string) => void;
+
+interface WordCountSpec<TResult> {
+  kind: WordFactKind;
+  accepts: (token: string) => boolean;
+  segmentOptions: WordSegmentOptions;
+  step: WordCountStep;
+  provenance: Provenance;
+  finish: (state: WordCountState) => TResult;
+}
+
+function createCountState(): WordCountState {
+  return { counts: new Map(), total: 0, window: [] };
+}
+
+function addCount(state: WordCountState, tokens: string[], count = 1): void {
+  const key = JSON.stringify(tokens);
+  const entry = state.counts.get(key);
+  if (entry) {
+    entry.count += count;
+  } else {
+    state.counts.set(key, { tokens, count });
   }
+}
 
-  const items = Array.from(counts.entries()).map(([token, count]) => ({ token, count }));
+function sortedCountItems(state: WordCountState): { tokens: string[]; count: number }[] {
+  const items = Array.from(state.counts.values());
   items.sort((a, b) => {
+    if (a.count !== b.count) return b.count - a.count;
+    return compareTokensLex(a.tokens, b.tokens);
+  });
+  return items;
+}
+
+/**
+ * Group raw token counts by key; forms and keys sort by count, then code point.
+ */
+function groupByTokenKey(
+  items: { tokens: string[]; count: number }[],
+  tokenKey: WordTokenKey,
+): WordFrequencyItem[] {
+  const groups = new Map<string, { count: number; forms: WordFormCount[] }>();
+  for (const item of items) {
+    const form = item.tokens[0] ?? "";
+    const key = tokenKey.keyOf(form);
+    const group = groups.get(key);
+    if (group) {
+      group.count += item.count;
+      group.forms.push({ form, count: item.count });
+    } else {
+      groups.set(key, { count: item.count, forms: [{ form, count: item.count }] });
+    }
+  }
+  const grouped = Array.from(groups.entries()).map(([key, group]) => ({
+    token: group.forms[0]?.form ?? "",
+    count: group.count,
+    key,
+    forms: group.forms,
+  }));
+  grouped.sort((a, b) => {
     if (a.count !== b.count) return b.count - a.count;
     return compareByCodePoint(a.token, b.token);
   });
+  return grouped;
+}
 
+function frequencySpec(options: WordFrequencyOptions): WordCountSpec<WordFrequencyResult> {
+  const filter = compileWordTokenFilter(options.filter);
+  const { tokenKey } = options;
+  const segmentOptions = buildSegmentOptions(options);
+  const provenance = buildProvenance("Facts.WordFrequency", {
+    filter: filter.config,
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...tailoringOptions(segmentOptions),
+    ...(tokenKey ? { tokenKey: tokenKey.config } : {}),
+  });
   return {
-    items,
-    totalTokens,
-    provenance: buildProvenance("Facts.WordFrequency", normalizedOptions),
+    kind: "wordFrequencies",
+    accepts: filter.accepts,
+    segmentOptions,
+    step: (state, token) => {
+      addCount(state, [token]);
+      state.total += 1;
+    },
+    provenance,
+    finish: (state) => ({
+      items: tokenKey
+        ? groupByTokenKey(sortedCountItems(state), tokenKey)
+        : sortedCountItems(state).map((item) => ({
+            token: item.tokens[0] ?? "",
+            count: item.count,
+          })),
+      totalTokens: state.total,
+      provenance,
+    }),
   };
 }
 
-/**
- * Word n-gram counts using UAX #29 segmentation.
- * Units: bytes (UTF-8).
- */
-export function wordNgrams(input: TextInput, options: WordNgramOptions): WordNgramResult {
-  const filter = options.filter ?? "all";
+function ngramSpec(options: WordNgramOptions): WordCountSpec<WordNgramResult> {
+  const filter = compileWordTokenFilter(options.filter);
   const ngramSize = Math.max(1, Math.floor(options.n));
-  const counts = new Map<string, { tokens: string[]; count: number }>();
-  const window: string[] = [];
-  let totalNgrams = 0;
-  const { text } = normalizeInput(input);
-  const segmentOptions = options.algorithmRevision
-    ? { algorithmRevision: options.algorithmRevision }
-    : {};
-  const normalizedOptions = {
+  const segmentOptions = buildSegmentOptions(options);
+  const provenance = buildProvenance("Facts.WordNgrams", {
     n: ngramSize,
-    filter,
+    filter: filter.config,
     algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...tailoringOptions(segmentOptions),
+  });
+  return {
+    kind: "wordNgrams",
+    accepts: filter.accepts,
+    segmentOptions,
+    step: (state, token) => {
+      const window = state.window;
+      window.push(token);
+      if (window.length < ngramSize) return;
+      addCount(state, window.slice(0, ngramSize));
+      state.total += 1;
+      window.shift();
+    },
+    provenance,
+    finish: (state) => ({
+      items: sortedCountItems(state),
+      totalNgrams: state.total,
+      provenance,
+    }),
   };
+}
 
-  for (const span of segmentWordsUAX29(text, segmentOptions)) {
+function cooccurrenceSpec(options: WordCooccurrenceOptions): WordCountSpec<WordCooccurrenceResult> {
+  const filter = compileWordTokenFilter(options.filter);
+  const windowSize = Math.max(2, Math.floor(options.windowSize));
+  const segmentOptions = buildSegmentOptions(options);
+  const provenance = buildProvenance("Facts.WordCooccurrence", {
+    windowSize,
+    filter: filter.config,
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...tailoringOptions(segmentOptions),
+  });
+  return {
+    kind: "wordCooccurrence",
+    accepts: filter.accepts,
+    segmentOptions,
+    step: (state, token) => {
+      const window = state.window;
+      window.push(token);
+      if (window.length < windowSize) return;
+
+      for (let leftIndex = 0; leftIndex < window.length; leftIndex += 1) {
+        for (let rightIndex = leftIndex + 1; rightIndex < window.length; rightIndex += 1) {
+          const leftToken = window[leftIndex] ?? "";
+          const rightToken = window[rightIndex] ?? "";
+          addCount(
+            state,
+            compareByCodePoint(leftToken, rightToken) <= 0
+              ? [leftToken, rightToken]
+              : [rightToken, leftToken],
+          );
+        }
+      }
+
+      state.total += 1;
+      window.shift();
+    },
+    provenance,
+    finish: (state) => ({
+      items: sortedCountItems(state).map((item) => ({
+        tokens: [item.tokens[0] ?? "", item.tokens[1] ?? ""],
+        count: item.count,
+      })),
+      totalWindows: state.total,
+      provenance,
+    }),
+  };
+}
+
+function countWords<TResult>(spec: WordCountSpec<TResult>, input: TextInput): TResult {
+  const state = createCountState();
+  const { text } = normalizeInput(input);
+  for (const span of segmentWordsUAX29(text, spec.segmentOptions)) {
     const token = sliceBySpan(text, span);
-    if (!shouldInclude(token, filter)) continue;
-    window.push(token);
-    if (window.length < ngramSize) continue;
-
-    const tokens = window.slice(0, ngramSize);
-    const key = JSON.stringify(tokens);
-    const entry = counts.get(key);
-    if (entry) {
-      entry.count += 1;
-    } else {
-      counts.set(key, { tokens, count: 1 });
+    if (spec.accepts(token)) spec.step(state, token);
+  }
+  return spec.finish(state);
+}
+
+/**
+ * Segment `text` and count its tokens; returns the unresolved tail.
+ * Unless `final`, stops at the first boundary more text could still move.
+ */
+function feedTokens<TResult>(
+  spec: WordCountSpec<TResult>,
+  state: WordCountState,
+  text: string,
+  final: boolean,
+): string {
+  const lastCodeUnit = text.charCodeAt(text.length - 1);
+  // A trailing high surrogate may pair with the next chunk; keep it out of the scan.
+  const scanEnd =
+    !final && lastCodeUnit >= 0xd800 && lastCodeUnit <= 0xdbff ? text.length - 1 : text.length;
+  const scanText = text.slice(0, scanEnd);
+  let resolvedCU = 0;
+  for (const span of segmentWordsUAX29(scanText, spec.segmentOptions)) {
+    if (!final) {
+      if (span.endCU >= scanText.length) break;
+      if (!resolveWordBoundary(scanText, span.endCU)) break;
     }
-    totalNgrams += 1;
-    window.shift();
+    const token = sliceBySpan(scanText, span);
+    if (spec.accepts(token)) spec.step(state, token);
+    resolvedCU = span.endCU;
   }
+  return text.slice(resolvedCU);
+}
 
-  const items = Array.from(counts.values());
-  items.sort((a, b) => {
-    if (a.count !== b.count) return b.count - a.count;
-    return compareTokensLex(a.tokens, b.tokens);
-  });
+function readState<TResult>(
+  value: WordFactBuilder<TResult> | WordFactState | string,
+  spec: WordCountSpec<TResult>,
+): WordFactState {
+  const state: WordFactState =
+    typeof value === "string"
+      ? (JSON.parse(value) as WordFactState)
+      : "toState" in value
+        ? value.toState()
+        : value;
+  if (
+    state.version !== WORD_FACT_STATE_VERSION ||
+    state.kind !== spec.kind ||
+    state.configHash !== spec.provenance.configHash
+  ) {
+    throw new TextfactsError("FACTS_INCOMPATIBLE_STATE", "Incompatible word fact state", {
+      expected: {
+        version: WORD_FACT_STATE_VERSION,
+        kind: spec.kind,
+        configHash: spec.provenance.configHash,
+      },
+      actual: { version: state.version, kind: state.kind, configHash: state.configHash },
+    });
+  }
+  return state;
+}
 
+function restoreCountState(snapshot: WordFactState): WordCountState {
+  const state = createCountState();
+  for (const item of snapshot.items) addCount(state, [...item.tokens], item.count);
+  state.total = snapshot.total;
+  state.window = [...snapshot.window];
+  return state;
+}
+
+/**
+ * Continuation bytes still owed by the UTF-8 sequence open at the end of `chunk`,
+ * given `owed` from the previous chunk. Assumes the decoder accepted the bytes.
+ */
+function utf8BytesOwed(owed: number, chunk: Uint8Array): number {
+  let continuation = 0;
+  for (let index = chunk.length - 1; index >= 0 && continuation < 3; index -= 1) {
+    const byte = chunk[index] ?? 0;
+    if (byte < 0x80) return 0;
+    if (byte >= 0xc0) {
+      const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : 2;
+      return Math.max(length - 1 - continuation, 0);
+    }
+    continuation += 1;
+  }
+  return continuation < chunk.length ? 0 : Math.max(owed - continuation, 0);
+}
+
+function createWordFactBuilder<TResult>(
+  spec: WordCountSpec<TResult>,
+  initial?: WordFactState | string,
+): WordFactBuilder<TResult> {
+  // Byte chunks may split a code point; the decoder carries the partial sequence.
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  let owedBytes = 0;
+  let state = createCountState();
+  let pending = "";
+  // Re-scan only once `pending` has doubled, so a long run without a resolvable
+  // boundary costs amortized linear work instead of a rescan per chunk.
+  let scanAtCU = 0;
+  if (initial !== undefined) {
+    const snapshot = readState(initial, spec);
+    state = restoreCountState(snapshot);
+    pending = snapshot.pending;
+  }
+  const toState = (): WordFactState => {
+    if (owedBytes > 0) {
+      throw new RangeError("Word fact state cannot be taken inside a UTF-8 sequence");
+    }
+    // Count deferred resolved tokens so the snapshot does not depend on chunking.
+    pending = feedTokens(spec, state, pending, false);
+    scanAtCU = 2 * pending.length;
+    return {
+      version: WORD_FACT_STATE_VERSION,
+      kind: spec.kind,
+      configHash: spec.provenance.configHash,
+      total: state.total,
+      items: sortedCountItems(state),
+      window: [...state.window],
+      pending,
+    };
+  };
   return {
-    items,
-    totalNgrams,
-    provenance: buildProvenance("Facts.WordNgrams", normalizedOptions),
+    update(chunk: TextInput) {
+      let text: string;
+      if (typeof chunk === "string") {
+        text = chunk;
+      } else {
+        text = decoder.decode(chunk, { stream: true });
+        owedBytes = utf8BytesOwed(owedBytes, chunk);
+      }
+      pending += text;
+      if (pending.length < scanAtCU) return;
+      pending = feedTokens(spec, state, pending, false);
+      scanAtCU = 2 * pending.length;
+    },
+    merge(other) {
+      const snapshot = readState(other, spec);
+      const shard = restoreCountState(snapshot);
+      feedTokens(spec, shard, snapshot.pending, true);
+      for (const item of shard.counts.values()) addCount(state, item.tokens, item.count);
+      state.total += shard.total;
+    },
+    finalize(): TResult {
+      pending += decoder.decode();
+      const snapshot = restoreCountState(toState());
+      feedTokens(spec, snapshot, pending, true);
+      return spec.finish(snapshot);
+    },
+    toState,
+    serialize: () => canonicalModelStringify(toState()),
   };
 }
 
+/**
+ * Word frequency counts using UAX #29 segmentation.
+ * Units: bytes (UTF-8).
+ */
+export function wordFrequencies(
+  input: TextInput,
+  options: WordFrequencyOptions = {},
+): WordFrequencyResult {
+  return countWords(frequencySpec(options), input);
+}
+
+/**
+ * Word n-gram counts using UAX #29 segmentation.
+ * Units: bytes (UTF-8).
+ */
+export function wordNgrams(input: TextInput, options: WordNgramOptions): WordNgramResult {
+  return countWords(ngramSpec(options), input);
+}
+
 /**
  * Word co-occurrence counts using UAX #29 segmentation.
  * Units: bytes (UTF-8).
@@ -242,60 +605,135 @@ export function wordCooccurrence(
   input: TextInput,
   options: WordCooccurrenceOptions,
 ): WordCooccurrenceResult {
-  const filter = options.filter ?? "all";
-  const windowSize = Math.max(2, Math.floor(options.windowSize));
-  const counts = new Map<string, { tokens: [string, string]; count: number }>();
-  const window: string[] = [];
-  let totalWindows = 0;
+  return countWords(cooccurrenceSpec(options), input);
+}
+
+/**
+ * Incremental `wordFrequencies`. Chunks passed to `update` are one text, so `finalize`
+ * equals `wordFrequencies` on their concatenation; `merge` adds another shard's counts as a
+ * separate text. Pass a serialized state to resume; states with another config hash throw.
+ * Byte chunks may end inside a code point, but `toState` and `serialize` throw until it completes.
+ * Units: bytes (UTF-8).
+ */
+export function wordFrequencyBuilder(
+  options: WordFrequencyOptions = {},
+  state?: WordFactState | string,
+): WordFactBuilder<WordFrequencyResult> {
+  return createWordFactBuilder(frequencySpec(options), state);
+}
+
+/**
+ * Incremental `wordNgrams`; n-grams never span merged shards.
+ * Units: bytes (UTF-8).
+ */
+export function wordNgramBuilder(
+  options: WordNgramOptions,
+  state?: WordFactState | string,
+): WordFactBuilder<WordNgramResult> {
+  return createWordFactBuilder(ngramSpec(options), state);
+}
+
+/**
+ * Incremental `wordCooccurrence`; windows never span merged shards.
+ * Units: bytes (UTF-8).
+ */
+export function wordCooccurrenceBuilder(
+  options: WordCooccurrenceOptions,
+  state?: WordFactState | string,
+): WordFactBuilder<WordCooccurrenceResult> {
+  return createWordFactBuilder(cooccurrenceSpec(options), state);
+}
+
+/**
+ * Lexical richness and frequency-spectrum facts using UAX #29 segmentation.
+ * Tokens are filtered `word-like` by default. Every measure is an exact ratio;
+ * its formula id is part of the provenance config hash.
+ * Units: bytes (UTF-8).
+ */
+export function lexicalRichness(
+  input: TextInput,
+  options: LexicalRichnessOptions = {},
+): LexicalRichnessResult {
+  const filter = compileWordTokenFilter(options.filter ?? "word-like");
+  const mattrWindow = Math.max(1, Math.floor(options.mattrWindow ?? DEFAULT_MATTR_WINDOW));
   const { text } = normalizeInput(input);
-  const segmentOptions = options.algorithmRevision
-    ? { algorithmRevision: options.algorithmRevision }
-    : {};
+  const segmentOptions = buildSegmentOptions(options);
   const normalizedOptions = {
-    windowSize,
-    filter,
+    filter: filter.config,
+    mattrWindow,
+    formulas: RICHNESS_FORMULAS,
     algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    ...tailoringOptions(segmentOptions),
   };
 
+  const sequence: string[] = [];
+  const counts = new Map<string, number>();
   for (const span of segmentWordsUAX29(text, segmentOptions)) {
     const token = sliceBySpan(text, span);
-    if (!shouldInclude(token, filter)) continue;
-    window.push(token);
-    if (window.length < windowSize) continue;
-
-    for (let leftIndex = 0; leftIndex < window.length; leftIndex += 1) {
-      for (let rightIndex = leftIndex + 1; rightIndex < window.length; rightIndex += 1) {
-        const leftToken = window[leftIndex] ?? "";
-        const rightToken = window[rightIndex] ?? "";
-        const orderedPair: [string, string] =
-          compareByCodePoint(leftToken, rightToken) <= 0
-            ? [leftToken, rightToken]
-            : [rightToken, leftToken];
-        const key = JSON.stringify(orderedPair);
-        const entry = counts.get(key);
-        if (entry) {
-          entry.count += 1;
+    if (!filter.accepts(token)) continue;
+    sequence.push(token);
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  const spectrumCounts = new Map<number, number>();
+  for (const count of counts.values()) {
+    spectrumCounts.set(count, (spectrumCounts.get(count) ?? 0) + 1);
+  }
+  const spectrum = Array.from(spectrumCounts.entries())
+    .map(([m, types]) => ({ m, types }))
+    .sort((a, b) => a.m - b.m);
+
+  const tokens = BigInt(sequence.length);
+  let squareSum = 0n;
+  let pairSum = 0n;
+  for (const { m, types } of spectrum) {
+    const frequency = BigInt(m);
+    squareSum += frequency * frequency * BigInt(types);
+    pairSum += frequency * (frequency - 1n) * BigInt(types);
+  }
+
+  const window = Math.min(mattrWindow, sequence.length);
+  let windowTypeSum = 0n;
+  if (window > 0) {
+    const windowCounts = new Map<string, number>();
+    for (let index = 0; index < sequence.length; index += 1) {
+      const entering = sequence[index] ?? "";
+      windowCounts.set(entering, (windowCounts.get(entering) ?? 0) + 1);
+      if (index >= window) {
+        const leaving = sequence[index - window] ?? "";
+        const remaining = (windowCounts.get(leaving) ?? 0) - 1;
+        if (remaining === 0) {
+          windowCounts.delete(leaving);
         } else {
-          counts.set(key, { tokens: orderedPair, count: 1 });
+          windowCounts.set(leaving, remaining);
         }
       }
+      if (index >= window - 1) windowTypeSum += BigInt(windowCounts.size);
     }
-
-    totalWindows += 1;
-    window.shift();
   }
-
-  const items = Array.from(counts.values());
-  items.sort((a, b) => {
-    if (a.count !== b.count) return b.count - a.count;
-    const cmp = compareByCodePoint(a.tokens[0], b.tokens[0]);
-    if (cmp !== 0) return cmp;
-    return compareByCodePoint(a.tokens[1], b.tokens[1]);
-  });
+  const windowCount = BigInt(Math.max(0, sequence.length - window + 1));
 
   return {
-    items,
-    totalWindows,
-    provenance: buildProvenance("Facts.WordCooccurrence", normalizedOptions),
+    tokens: sequence.length,
+    types: counts.size,
+    hapaxLegomena: spectrumCounts.get(1) ?? 0,
+    disLegomena: spectrumCounts.get(2) ?? 0,
+    spectrum,
+    measures: {
+      ttr: { ratio: ratio(BigInt(counts.size), tokens), formula: RICHNESS_FORMULAS.ttr },
+      yulesK: {
+        ratio: ratio(10000n * (squareSum - tokens), tokens * tokens),
+        formula: RICHNESS_FORMULAS.yulesK,
+      },
+      simpsonsD: {
+        ratio: ratio(pairSum, tokens * (tokens - 1n)),
+        formula: RICHNESS_FORMULAS.simpsonsD,
+      },
+      mattr: {
+        ratio: ratio(windowTypeSum, BigInt(window) * windowCount),
+        formula: RICHNESS_FORMULAS.mattr,
+      },
+    },
+    provenance: buildProvenance("Facts.LexicalRichness", normalizedOptions),
   };
 }
@@ -1,10 +1,16 @@
-import { type CanonicalKeyId, type TokenizerId, tokenizeForComparison } from "../compare/tokens.ts";
+import {
+  type CanonicalKeyId,
+  type TokenizeOptions,
+  type TokenizerId,
+  tokenizeForComparison,
+} from "../compare/tokens.ts";
 import { compareByCodePoint } from "../core/compare.ts";
 import { createProvenance } from "../core/provenance.ts";
 import type { Span } from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { formatU64Hex } from "../hash64/fnv1a64.ts";
 import type { Hash64AlgoId } from "../hash64/types.ts";
+import { type WordTailoring, normalizeWordTailorings } from "../segment/word.ts";
 import { shingleHashes } from "./shingles.ts";
 
 /**
@@ -33,6 +39,7 @@ export interface WinnowingOptions {
   hash?: { algo: Hash64AlgoId };
   maxTokens?: number;
   maxFingerprints?: number;
+  wordTailorings?: WordTailoring[];
 }
 
 /**
@@ -129,19 +136,17 @@ export function winnowingFingerprints(text: string, options: WinnowingOptions):
   const shingleSize = Math.max(1, Math.floor(options.k));
   const windowSize = Math.max(1, Math.floor(options.window));
   const dedupe = options.dedupe ?? "by-hash";
-  const tokenOptions: {
-    tokenizer: TokenizerId;
-    canonicalKey: CanonicalKeyId;
-    materialize?: "none";
-    hash?: { algo: Hash64AlgoId };
-    maxTokens?: number;
-  } = {
+  const tokenOptions: TokenizeOptions = {
     tokenizer: options.tokenizer,
     canonicalKey: options.canonicalKey,
     materialize: "none",
   };
   if (options.hash) tokenOptions.hash = options.hash;
   if (options.maxTokens !== undefined) tokenOptions.maxTokens = options.maxTokens;
+  const wordTailorings = normalizeWordTailorings(options.wordTailorings);
+  if (wordTailorings.length > 0) tokenOptions.wordTailorings = wordTailorings;
+  const provenanceOptions = { ...options, k: shingleSize, window: windowSize, dedupe };
+  if (options.wordTailorings) provenanceOptions.wordTailorings = wordTailorings;
   const tokens = tokenizeForComparison(text, tokenOptions);
   const shingles = shingleHashes(tokens, shingleSize);
   const maxFingerprints = options.maxFingerprints ?? Number.POSITIVE_INFINITY;
@@ -157,7 +162,7 @@ export function winnowingFingerprints(text: string, options: WinnowingOptions):
           revisionOrDate: WINNOWING_REVISION,
           implementationId: IMPLEMENTATION_ID,
         },
-        { ...options, k: shingleSize, window: windowSize, dedupe },
+        provenanceOptions,
         { text: "utf16-code-unit", token: options.tokenizer },
       ),
     };
@@ -183,7 +188,7 @@ export function winnowingFingerprints(text: string, options: WinnowingOptions):
       revisionOrDate: WINNOWING_REVISION,
       implementationId: IMPLEMENTATION_ID,
     },
-    { ...options, k: shingleSize, window: windowSize, dedupe },
+    provenanceOptions,
     { text: "utf16-code-unit", token: options.tokenizer },
   );
 
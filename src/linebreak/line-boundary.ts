@@ -0,0 +1,95 @@
+import { LineBreakClass, getLineBreakClassId } from "../unicode/linebreak.ts";
+import { lineBreakOpportunities } from "./linebreak.ts";
+
+function clampPosition(text: string, posCU: number): number {
+  return Math.min(Math.max(Math.floor(posCU), 0), text.length);
+}
+
+function codePointStartBefore(text: string, posCU: number): number {
+  const low = text.charCodeAt(posCU - 1);
+  if (posCU >= 2 && low >= 0xdc00 && low <= 0xdfff) {
+    const high = text.charCodeAt(posCU - 2);
+    if (high >= 0xd800 && high <= 0xdbff) return posCU - 2;
+  }
+  return posCU - 1;
+}
+
+function isInsideSurrogatePair(text: string, posCU: number): boolean {
+  if (posCU <= 0 || posCU >= text.length) return false;
+  const high = text.charCodeAt(posCU - 1);
+  const low = text.charCodeAt(posCU);
+  return high >= 0xd800 && high <= 0xdbff && low >= 0xdc00 && low <= 0xdfff;
+}
+
+function isHardBreakAt(text: string, indexCU: number): boolean {
+  const cls = getLineBreakClassId(text.codePointAt(indexCU) ?? 0);
+  if (cls === LineBreakClass.CR) return text.charCodeAt(indexCU + 1) !== 0x0a;
+  return cls === LineBreakClass.BK || cls === LineBreakClass.LF || cls === LineBreakClass.NL;
+}
+
+/**
+ * Boundaries of the hard-break-delimited line around `[fromCU, toCU]`, including its start.
+ * UAX #14 decisions never look across a mandatory break, so the line is self-contained.
+ */
+function lineBoundaries(text: string, fromCU: number, toCU: number): number[] {
+  let startCU = fromCU;
+  while (startCU > 0) {
+    const previous = codePointStartBefore(text, startCU);
+    if (isHardBreakAt(text, previous)) break;
+    startCU = previous;
+  }
+  let endCU = toCU;
+  while (endCU < text.length) {
+    const codePoint = text.codePointAt(endCU) ?? 0;
+    const hard = isHardBreakAt(text, endCU);
+    endCU += codePoint > 0xffff ? 2 : 1;
+    if (hard) break;
+  }
+  const boundaries = [startCU];
+  for (const opportunity of lineBreakOpportunities(text.slice(startCU, endCU))) {
+    if (opportunity.kind === "prohibited" || opportunity.posCU === 0) continue;
+    boundaries.push(startCU + opportunity.posCU);
+  }
+  return boundaries;
+}
+
+/**
+ * Whether `posCU` is a UAX #14 line break opportunity (allowed or mandatory).
+ * Text start and end are always boundaries; only the enclosing hard-break-delimited line is examined.
+ * Units: UTF-16 code units.
+ */
+export function isLineBoundary(text: string, posCU: number): boolean {
+  if (posCU < 0 || posCU > text.length || !Number.isInteger(posCU)) return false;
+  if (posCU === 0 || posCU === text.length) return true;
+  if (isInsideSurrogatePair(text, posCU)) return false;
+  return lineBoundaries(text, posCU, posCU).includes(posCU);
+}
+
+/**
+ * Largest line boundary strictly before `posCU`, or -1 when there is none.
+ * Units: UTF-16 code units.
+ */
+export function precedingLineBoundary(text: string, posCU: number): number {
+  const targetCU = clampPosition(text, posCU);
+  if (targetCU === 0) return -1;
+  const previous = codePointStartBefore(text, targetCU);
+  let found = -1;
+  for (const boundary of lineBoundaries(text, previous, previous)) {
+    if (boundary < targetCU) found = boundary;
+  }
+  return found;
+}
+
+/**
+ * Smallest line boundary strictly after `posCU`, or -1 when there is none.
+ * Units: UTF-16 code units.
+ */
+export function followingLineBoundary(text: string, posCU: number): number {
+  const targetCU = posCU < 0 ? -1 : clampPosition(text, posCU);
+  if (targetCU >= text.length) return -1;
+  if (targetCU < 0) return 0;
+  for (const boundary of lineBoundaries(text, targetCU, targetCU)) {
+    if (boundary > targetCU) return boundary;
+  }
+  return text.length;
+}
@@ -0,0 +1,249 @@
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { Provenance, Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { segmentGraphemes } from "../segment/grapheme.ts";
+import { LineBreakClass, getLineBreakClassId } from "../unicode/linebreak.ts";
+
+/**
+ * LineColumnUnit selects how columns are counted within a line.
+ */
+export type LineColumnUnit = "utf16" | "codePoint" | "utf8" | "grapheme";
+
+/**
+ * LineColumn is a zero-based line and column; the column is counted in the chosen unit.
+ */
+export interface LineColumn {
+  line: number;
+  column: number;
+}
+
+/**
+ * LineRange defines an exported structural contract.
+ */
+export interface LineRange {
+  start: LineColumn;
+  end: LineColumn;
+}
+
+/**
+ * LineIndex converts between UTF-16 offsets and line/column positions.
+ * Lines end at UAX #14 mandatory breaks (BK, CR, LF, NL; CRLF counts once).
+ * Offsets that fall inside a code point or grapheme cluster round down to its start.
+ * Columns past the end of a line clamp to the line end, before its terminator.
+ */
+export interface LineIndex {
+  provenance: Provenance;
+  lineCount: number;
+  /** Content of `line` without its terminator. */
+  lineSpan: (line: number) => Span;
+  toLineColumn: (offsetCU: number, unit?: LineColumnUnit) => LineColumn;
+  fromLineColumn: (position: LineColumn, unit?: LineColumnUnit) => number;
+  spanToRange: (span: Span, unit?: LineColumnUnit) => LineRange;
+  rangeToSpan: (range: LineRange, unit?: LineColumnUnit) => Span;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX14_SPEC = "https://unicode.org/reports/tr14/";
+
+/**
+ * Number of entries in the sorted array `values` that are <= `target`.
+ */
+function countAtMost(values: ArrayLike<number>, target: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if ((values[mid] ?? 0) <= target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Monotonic offset mapping between UTF-16 code units and another unit.
+ * `toUnit` rounds offsets inside a unit down; `fromUnit` is its inverse on unit starts.
+ */
+interface UnitMap {
+  toUnit: (offsetCU: number) => number;
+  fromUnit: (offset: number) => number;
+}
+
+const UTF16_MAP: UnitMap = {
+  toUnit: (offsetCU) => offsetCU,
+  fromUnit: (offset) => offset,
+};
+
+/**
+ * Map from sorted unit starts (in code units) to their ordinal.
+ */
+function createOrdinalMap(startsCU: number[], lengthCU: number): UnitMap {
+  return {
+    toUnit: (offsetCU) =>
+      offsetCU >= lengthCU ? startsCU.length : countAtMost(startsCU, offsetCU) - 1,
+    fromUnit: (offset) =>
+      offset >= startsCU.length ? lengthCU : (startsCU[Math.max(0, offset)] ?? 0),
+  };
+}
+
+/**
+ * Map for units where some code points are wider or narrower than their code units.
+ * Only those code points are stored; offsets between them shift by the running difference.
+ */
+function createWidthMap(text: string, widthOf: (codePoint: number) => number): UnitMap {
+  const positionsCU: number[] = [];
+  const sizesCU: number[] = [];
+  const unitStarts: number[] = [];
+  const widths: number[] = [];
+  const shiftAfter: number[] = [];
+  let shift = 0;
+  for (let index = 0; index < text.length; ) {
+    const codePoint = text.codePointAt(index) ?? 0;
+    const sizeCU = codePoint > 0xffff ? 2 : 1;
+    const width = widthOf(codePoint);
+    if (width !== sizeCU) {
+      positionsCU.push(index);
+      sizesCU.push(sizeCU);
+      unitStarts.push(index + shift);
+      widths.push(width);
+      shift += width - sizeCU;
+      shiftAfter.push(shift);
+    }
+    index += sizeCU;
+  }
+  return {
+    toUnit: (offsetCU) => {
+      const entry = countAtMost(positionsCU, offsetCU) - 1;
+      if (entry < 0) return offsetCU;
+      if (offsetCU < (positionsCU[entry] ?? 0) + (sizesCU[entry] ?? 0)) {
+        return unitStarts[entry] ?? 0;
+      }
+      return offsetCU + (shiftAfter[entry] ?? 0);
+    },
+    fromUnit: (offset) => {
+      const entry = countAtMost(unitStarts, offset) - 1;
+      if (entry < 0) return offset;
+      if (offset < (unitStarts[entry] ?? 0) + (widths[entry] ?? 0)) {
+        return positionsCU[entry] ?? 0;
+      }
+      return offset - (shiftAfter[entry] ?? 0);
+    },
+  };
+}
+
+function utf8Width(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+function isMandatoryBreak(cls: LineBreakClass): boolean {
+  return (
+    cls === LineBreakClass.BK ||
+    cls === LineBreakClass.CR ||
+    cls === LineBreakClass.LF ||
+    cls === LineBreakClass.NL
+  );
+}
+
+/**
+ * Build a line/column index over `input` once; lookups are O(log n).
+ * Units: UTF-16 code units, Unicode code points, bytes (UTF-8) and UAX #29 graphemes.
+ */
+export function createLineIndex(input: TextInput): LineIndex {
+  const { text } = normalizeInput(input);
+  const provenance = createProvenance(
+    {
+      name: "textfacts.LineIndex",
+      spec: UAX14_SPEC,
+      revisionOrDate: DEFAULT_ALGORITHM_REVISION,
+      implementationId: IMPLEMENTATION_ID,
+    },
+    { algorithmRevision: DEFAULT_ALGORITHM_REVISION },
+    {
+      text: "utf16-code-unit",
+      byte: "utf8-byte",
+      codePoint: "unicode-code-point",
+      grapheme: "uax29-grapheme",
+      lineBreak: "uax14-line-break",
+    },
+  );
+
+  const lineStarts: number[] = [0];
+  const contentEnds: number[] = [];
+  for (let index = 0; index < text.length; ) {
+    const codePoint = text.codePointAt(index) ?? 0;
+    const sizeCU = codePoint > 0xffff ? 2 : 1;
+    const cls = getLineBreakClassId(codePoint);
+    if (isMandatoryBreak(cls)) {
+      contentEnds.push(index);
+      let next = index + sizeCU;
+      if (cls === LineBreakClass.CR && text.charCodeAt(next) === 0x0a) next += 1;
+      lineStarts.push(next);
+      index = next;
+      continue;
+    }
+    index += sizeCU;
+  }
+  contentEnds.push(text.length);
+
+  const unitMaps = new Map<LineColumnUnit, UnitMap>([["utf16", UTF16_MAP]]);
+  const unitMap = (unit: LineColumnUnit): UnitMap => {
+    let map = unitMaps.get(unit);
+    if (map) return map;
+    if (unit === "grapheme") {
+      const starts: number[] = [];
+      for (const span of segmentGraphemes(text)) starts.push(span.startCU);
+      map = createOrdinalMap(starts, text.length);
+    } else {
+      map = createWidthMap(text, unit === "utf8" ? utf8Width : () => 1);
+    }
+    unitMaps.set(unit, map);
+    return map;
+  };
+
+  const clampLine = (line: number) =>
+    Math.min(Math.max(Math.floor(line), 0), lineStarts.length - 1);
+
+  const lineSpan = (line: number): Span => {
+    const clamped = clampLine(line);
+    return { startCU: lineStarts[clamped] ?? 0, endCU: contentEnds[clamped] ?? text.length };
+  };
+
+  const toLineColumn = (offsetCU: number, unit: LineColumnUnit = "utf16"): LineColumn => {
+    const clamped = Math.min(Math.max(Math.floor(offsetCU), 0), text.length);
+    const line = countAtMost(lineStarts, clamped) - 1;
+    const map = unitMap(unit);
+    const { startCU, endCU } = lineSpan(line);
+    const column = map.toUnit(Math.min(clamped, endCU)) - map.toUnit(startCU);
+    return { line, column };
+  };
+
+  const fromLineColumn = (position: LineColumn, unit: LineColumnUnit = "utf16"): number => {
+    if (position.line >= lineStarts.length) return text.length;
+    const { startCU, endCU } = lineSpan(position.line);
+    const map = unitMap(unit);
+    const target = map.toUnit(startCU) + Math.max(0, Math.floor(position.column));
+    return Math.min(map.fromUnit(target), endCU);
+  };
+
+  return {
+    provenance,
+    lineCount: lineStarts.length,
+    lineSpan,
+    toLineColumn,
+    fromLineColumn,
+    spanToRange: (span, unit = "utf16") => ({
+      start: toLineColumn(span.startCU, unit),
+      end: toLineColumn(span.endCU, unit),
+    }),
+    rangeToSpan: (range, unit = "utf16") => ({
+      startCU: fromLineColumn(range.start, unit),
+      endCU: fromLineColumn(range.end, unit),
+    }),
+  };
+}
@@ -2,7 +2,7 @@ import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
 import type { Provenance, TextInput } from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
-import { collectCodePoints } from "../segment/internal.ts";
+import { collectCodePoints, createUtf8OffsetCursor, utf8BaseOffset } from "../segment/internal.ts";
 import { isEastAsianWide } from "../unicode/east-asian.ts";
 import { isExtendedPictographic } from "../unicode/emoji.ts";
 import {
@@ -22,6 +22,15 @@ export interface LineBreakOpportunity {
   ruleId?: string | undefined;
 }
 
+/**
+ * ByteLineBreakOpportunity defines an exported structural contract.
+ */
+export interface ByteLineBreakOpportunity {
+  posB: number;
+  kind: LineBreakOpportunity["kind"];
+  ruleId?: string | undefined;
+}
+
 /**
  * LineBreakOptions defines an exported structural contract.
  */
@@ -38,6 +47,13 @@ export interface LineBreakIterable extends Iterable<LineBreakOpportunity> {
   provenance: Provenance;
 }
 
+/**
+ * ByteLineBreakIterable defines an exported structural contract.
+ */
+export interface ByteLineBreakIterable extends Iterable<ByteLineBreakOpportunity> {
+  provenance: Provenance;
+}
+
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const UAX14_SPEC = "https://unicode.org/reports/tr14/";
 
@@ -1040,3 +1056,36 @@ export function lineBreakPositions(input: TextInput, options: LineBreakOptions =
   }
   return new Uint32Array(positions);
 }
+
+/**
+ * Compute line break opportunities using UAX #14, reporting UTF-8 byte offsets.
+ * Offsets index the original buffer when given a Uint8Array (including a leading BOM).
+ * Units: bytes (UTF-8).
+ */
+export function lineBreakOpportunitiesBytes(
+  input: TextInput,
+  options: LineBreakOptions = {},
+): ByteLineBreakIterable {
+  const { text, byteLength } = normalizeInput(input);
+  const opportunities = lineBreakOpportunities(text, options);
+  const base = opportunities.provenance;
+  const provenance = createProvenance(
+    base.algorithm,
+    { configHash: base.configHash, units: "utf8-byte" },
+    { ...base.units, byte: "utf8-byte" },
+  );
+  const baseB = utf8BaseOffset(text, byteLength);
+  return {
+    provenance,
+    *[Symbol.iterator](): Iterator<ByteLineBreakOpportunity> {
+      const cursor = createUtf8OffsetCursor(text, baseB);
+      for (const opportunity of opportunities) {
+        yield {
+          posB: cursor.toByte(opportunity.posCU),
+          kind: opportunity.kind,
+          ruleId: opportunity.ruleId,
+        };
+      }
+    },
+  };
+}
@@ -1,7 +1,16 @@
 export type {
+  ByteLineBreakIterable,
+  ByteLineBreakOpportunity,
   LineBreakIterable,
   LineBreakOpportunity,
   LineBreakOptions,
 } from "./linebreak.ts";
-export { lineBreakOpportunities, lineBreakPositions } from "./linebreak.ts";
+export {
+  lineBreakOpportunities,
+  lineBreakOpportunitiesBytes,
+  lineBreakPositions,
+} from "./linebreak.ts";
+export { followingLineBoundary, isLineBoundary, precedingLineBoundary } from "./line-boundary.ts";
 export { LineBreakClass, lineBreakClassAt } from "../unicode/linebreak.ts";
+export type { LineColumn, LineColumnUnit, LineIndex, LineRange } from "./line-index.ts";
+export { createLineIndex } from "./line-index.ts";
@@ -0,0 +1,137 @@
+// Generated from Unicode 17.0.0 UnicodeData.txt + CompositionExclusions.txt + DerivedCombiningClass.txt
+// Quick-check flags: 1 NFD_NO, 2 NFKD_NO, 4 NFC_NO, 8 NFC_MAYBE, 16 NFKC_NO, 32 NFKC_MAYBE.
+// DO NOT EDIT MANUALLY.
+
+export const QC_RANGES = new Int32Array([
+  160, 160, 18, 168, 168, 18, 170, 170, 18, 175, 175, 18,
+  178, 181, 18, 184, 186, 18, 188, 190, 18, 192, 197, 3,
+  199, 207, 3, 209, 214, 3, 217, 221, 3, 224, 229, 3,
+  231, 239, 3, 241, 246, 3, 249, 253, 3, 255, 271, 3,
+  274, 293, 3, 296, 304, 3, 306, 307, 18, 308, 311, 3,
+  313, 318, 3, 319, 320, 18, 323, 328, 3, 329, 329, 18,
+  332, 337, 3, 340, 357, 3, 360, 382, 3, 383, 383, 18,
+  416, 417, 3, 431, 432, 3, 452, 460, 18, 461, 476, 3,
+  478, 483, 3, 486, 496, 3, 497, 499, 18, 500, 501, 3,
+  504, 539, 3, 542, 543, 3, 550, 563, 3, 688, 696, 18,
+  728, 733, 18, 736, 740, 18, 768, 772, 40, 774, 780, 40,
+  783, 783, 40, 785, 785, 40, 787, 788, 40, 795, 795, 40,
+  803, 808, 40, 813, 814, 40, 816, 817, 40, 824, 824, 40,
+  832, 833, 23, 834, 834, 40, 835, 836, 23, 837, 837, 40,
+  884, 884, 23, 890, 890, 18, 894, 894, 23, 900, 900, 18,
+  901, 901, 19, 902, 902, 3, 903, 903, 23, 904, 906, 3,
+  908, 908, 3, 910, 912, 3, 938, 944, 3, 970, 974, 3,
+  976, 978, 18, 979, 980, 19, 981, 982, 18, 1008, 1010, 18,
+  1012, 1013, 18, 1017, 1017, 18, 1024, 1025, 3, 1027, 1027, 3,
+  1031, 1031, 3, 1036, 1038, 3, 1049, 1049, 3, 1081, 1081, 3,
+  1104, 1105, 3, 1107, 1107, 3, 1111, 1111, 3, 1116, 1118, 3,
+  1142, 1143, 3, 1217, 1218, 3, 1232, 1235, 3, 1238, 1239, 3,
+  1242, 1247, 3, 1250, 1255, 3, 1258, 1269, 3, 1272, 1273, 3,
+  1415, 1415, 18, 1570, 1574, 3, 1619, 1621, 40, 1653, 1656, 18,
+  1728, 1728, 3, 1730, 1730, 3, 1747, 1747, 3, 2345, 2345, 3,
+  2353, 2353, 3, 2356, 2356, 3, 2364, 2364, 40, 2392, 2399, 23,
+  2494, 2494, 40, 2507, 2508, 3, 2519, 2519, 40, 2524, 2525, 23,
+  2527, 2527, 23, 2611, 2611, 23, 2614, 2614, 23, 2649, 2651, 23,
+  2654, 2654, 23, 2878, 2878, 40, 2888, 2888, 3, 2891, 2892, 3,
+  2902, 2903, 40, 2908, 2909, 23, 2964, 2964, 3, 3006, 3006, 40,
+  3018, 3020, 3, 3031, 3031, 40, 3144, 3144, 3, 3158, 3158, 40,
+  3264, 3264, 3, 3266, 3266, 40, 3271, 3272, 3, 3274, 3275, 3,
+  3285, 3286, 40, 3390, 3390, 40, 3402, 3404, 3, 3415, 3415, 40,
+  3530, 3530, 40, 3535, 3535, 40, 3546, 3546, 3, 3548, 3550, 3,
+  3551, 3551, 40, 3635, 3635, 18, 3763, 3763, 18, 3804, 3805, 18,
+  3852, 3852, 18, 3907, 3907, 23, 3917, 3917, 23, 3922, 3922, 23,
+  3927, 3927, 23, 3932, 3932, 23, 3945, 3945, 23, 3955, 3955, 23,
+  3957, 3958, 23, 3959, 3959, 18, 3960, 3960, 23, 3961, 3961, 18,
+  3969, 3969, 23, 3987, 3987, 23, 3997, 3997, 23, 4002, 4002, 23,
+  4007, 4007, 23, 4012, 4012, 23, 4025, 4025, 23, 4134, 4134, 3,
+  4142, 4142, 40, 4348, 4348, 18, 4449, 4469, 40, 4520, 4546, 40,
+  6918, 6918, 3, 6920, 6920, 3, 6922, 6922, 3, 6924, 6924, 3,
+  6926, 6926, 3, 6930, 6930, 3, 6965, 6965, 40, 6971, 6971, 3,
+  6973, 6973, 3, 6976, 6977, 3, 6979, 6979, 3, 7468, 7470, 18,
+  7472, 7482, 18, 7484, 7501, 18, 7503, 7530, 18, 7544, 7544, 18,
+  7579, 7615, 18, 7680, 7833, 3, 7834, 7834, 18, 7835, 7835, 19,
+  7840, 7929, 3, 7936, 7957, 3, 7960, 7965, 3, 7968, 8005, 3,
+  8008, 8013, 3, 8016, 8023, 3, 8025, 8025, 3, 8027, 8027, 3,
+  8029, 8029, 3, 8031, 8048, 3, 8049, 8049, 23, 8050, 8050, 3,
+  8051, 8051, 23, 8052, 8052, 3, 8053, 8053, 23, 8054, 8054, 3,
+  8055, 8055, 23, 8056, 8056, 3, 8057, 8057, 23, 8058, 8058, 3,
+  8059, 8059, 23, 8060, 8060, 3, 8061, 8061, 23, 8064, 8116, 3,
+  8118, 8122, 3, 8123, 8123, 23, 8124, 8124, 3, 8125, 8125, 18,
+  8126, 8126, 23, 8127, 8128, 18, 8129, 8129, 19, 8130, 8132, 3,
+  8134, 8136, 3, 8137, 8137, 23, 8138, 8138, 3, 8139, 8139, 23,
+  8140, 8140, 3, 8141, 8143, 19, 8144, 8146, 3, 8147, 8147, 23,
+  8150, 8154, 3, 8155, 8155, 23, 8157, 8159, 19, 8160, 8162, 3,
+  8163, 8163, 23, 8164, 8170, 3, 8171, 8171, 23, 8172, 8172, 3,
+  8173, 8173, 19, 8174, 8175, 23, 8178, 8180, 3, 8182, 8184, 3,
+  8185, 8185, 23, 8186, 8186, 3, 8187, 8187, 23, 8188, 8188, 3,
+  8189, 8189, 23, 8190, 8190, 18, 8192, 8193, 23, 8194, 8202, 18,
+  8209, 8209, 18, 8215, 8215, 18, 8228, 8230, 18, 8239, 8239, 18,
+  8243, 8244, 18, 8246, 8247, 18, 8252, 8252, 18, 8254, 8254, 18,
+  8263, 8265, 18, 8279, 8279, 18, 8287, 8287, 18, 8304, 8305, 18,
+  8308, 8334, 18, 8336, 8348, 18, 8360, 8360, 18, 8448, 8451, 18,
+  8453, 8455, 18, 8457, 8467, 18, 8469, 8470, 18, 8473, 8477, 18,
+  8480, 8482, 18, 8484, 8484, 18, 8486, 8486, 23, 8488, 8488, 18,
+  8490, 8491, 23, 8492, 8493, 18, 8495, 8497, 18, 8499, 8505, 18,
+  8507, 8512, 18, 8517, 8521, 18, 8528, 8575, 18, 8585, 8585, 18,
+  8602, 8603, 3, 8622, 8622, 3, 8653, 8655, 3, 8708, 8708, 3,
+  8713, 8713, 3, 8716, 8716, 3, 8740, 8740, 3, 8742, 8742, 3,
+  8748, 8749, 18, 8751, 8752, 18, 8769, 8769, 3, 8772, 8772, 3,
+  8775, 8775, 3, 8777, 8777, 3, 8800, 8800, 3, 8802, 8802, 3,
+  8813, 8817, 3, 8820, 8821, 3, 8824, 8825, 3, 8832, 8833, 3,
+  8836, 8837, 3, 8840, 8841, 3, 8876, 8879, 3, 8928, 8931, 3,
+  8938, 8941, 3, 9001, 9002, 23, 9312, 9450, 18, 10764, 10764, 18,
+  10868, 10870, 18, 10972, 10972, 23, 11388, 11389, 18, 11631, 11631, 18,
+  11935, 11935, 18, 12019, 12019, 18, 12032, 12245, 18, 12288, 12288, 18,
+  12342, 12342, 18, 12344, 12346, 18, 12364, 12364, 3, 12366, 12366, 3,
+  12368, 12368, 3, 12370, 12370, 3, 12372, 12372, 3, 12374, 12374, 3,
+  12376, 12376, 3, 12378, 12378, 3, 12380, 12380, 3, 12382, 12382, 3,
+  12384, 12384, 3, 12386, 12386, 3, 12389, 12389, 3, 12391, 12391, 3,
+  12393, 12393, 3, 12400, 12401, 3, 12403, 12404, 3, 12406, 12407, 3,
+  12409, 12410, 3, 12412, 12413, 3, 12436, 12436, 3, 12441, 12442, 40,
+  12443, 12444, 18, 12446, 12446, 3, 12447, 12447, 18, 12460, 12460, 3,
+  12462, 12462, 3, 12464, 12464, 3, 12466, 12466, 3, 12468, 12468, 3,
+  12470, 12470, 3, 12472, 12472, 3, 12474, 12474, 3, 12476, 12476, 3,
+  12478, 12478, 3, 12480, 12480, 3, 12482, 12482, 3, 12485, 12485, 3,
+  12487, 12487, 3, 12489, 12489, 3, 12496, 12497, 3, 12499, 12500, 3,
+  12502, 12503, 3, 12505, 12506, 3, 12508, 12509, 3, 12532, 12532, 3,
+  12535, 12538, 3, 12542, 12542, 3, 12543, 12543, 18, 12593, 12686, 18,
+  12690, 12703, 18, 12800, 12830, 18, 12832, 12871, 18, 12880, 12926, 18,
+  12928, 13311, 18, 42652, 42653, 18, 42864, 42864, 18, 42993, 42996, 18,
+  43000, 43001, 18, 43868, 43871, 18, 43881, 43881, 18, 44032, 55203, 3,
+  63744, 64013, 23, 64016, 64016, 23, 64018, 64018, 23, 64021, 64030, 23,
+  64032, 64032, 23, 64034, 64034, 23, 64037, 64038, 23, 64042, 64109, 23,
+  64112, 64217, 23, 64256, 64262, 18, 64275, 64279, 18, 64285, 64285, 23,
+  64287, 64287, 23, 64288, 64297, 18, 64298, 64310, 23, 64312, 64316, 23,
+  64318, 64318, 23, 64320, 64321, 23, 64323, 64324, 23, 64326, 64334, 23,
+  64335, 64433, 18, 64467, 64829, 18, 64848, 64911, 18, 64914, 64967, 18,
+  65008, 65020, 18, 65040, 65049, 18, 65072, 65092, 18, 65095, 65106, 18,
+  65108, 65126, 18, 65128, 65131, 18, 65136, 65138, 18, 65140, 65140, 18,
+  65142, 65276, 18, 65281, 65470, 18, 65474, 65479, 18, 65482, 65487, 18,
+  65490, 65495, 18, 65498, 65500, 18, 65504, 65510, 18, 65512, 65518, 18,
+  67017, 67017, 3, 67044, 67044, 3, 67457, 67461, 18, 67463, 67504, 18,
+  67506, 67514, 18, 69786, 69786, 3, 69788, 69788, 3, 69803, 69803, 3,
+  69818, 69818, 40, 69927, 69927, 40, 69934, 69935, 3, 70462, 70462, 40,
+  70475, 70476, 3, 70487, 70487, 40, 70531, 70531, 3, 70533, 70533, 3,
+  70542, 70542, 3, 70545, 70545, 3, 70584, 70584, 40, 70587, 70587, 40,
+  70594, 70594, 40, 70597, 70597, 43, 70599, 70600, 43, 70601, 70601, 40,
+  70832, 70832, 40, 70842, 70842, 40, 70843, 70844, 3, 70845, 70845, 40,
+  70846, 70846, 3, 71087, 71087, 40, 71098, 71099, 3, 71984, 71984, 40,
+  71992, 71992, 3, 90398, 90400, 40, 90401, 90408, 43, 90409, 90409, 40,
+  93543, 93543, 40, 93544, 93544, 43, 93545, 93546, 3, 117974, 118009, 18,
+  119134, 119140, 23, 119227, 119232, 23, 119808, 119892, 18, 119894, 119964, 18,
+  119966, 119967, 18, 119970, 119970, 18, 119973, 119974, 18, 119977, 119980, 18,
+  119982, 119993, 18, 119995, 119995, 18, 119997, 120003, 18, 120005, 120069, 18,
+  120071, 120074, 18, 120077, 120084, 18, 120086, 120092, 18, 120094, 120121, 18,
+  120123, 120126, 18, 120128, 120132, 18, 120134, 120134, 18, 120138, 120144, 18,
+  120146, 120485, 18, 120488, 120779, 18, 120782, 120831, 18, 122928, 122989, 18,
+  126464, 126467, 18, 126469, 126495, 18, 126497, 126498, 18, 126500, 126500, 18,
+  126503, 126503, 18, 126505, 126514, 18, 126516, 126519, 18, 126521, 126521, 18,
+  126523, 126523, 18, 126530, 126530, 18, 126535, 126535, 18, 126537, 126537, 18,
+  126539, 126539, 18, 126541, 126543, 18, 126545, 126546, 18, 126548, 126548, 18,
+  126551, 126551, 18, 126553, 126553, 18, 126555, 126555, 18, 126557, 126557, 18,
+  126559, 126559, 18, 126561, 126562, 18, 126564, 126564, 18, 126567, 126570, 18,
+  126572, 126578, 18, 126580, 126583, 18, 126585, 126588, 18, 126590, 126590, 18,
+  126592, 126601, 18, 126603, 126619, 18, 126625, 126627, 18, 126629, 126633, 18,
+  126635, 126651, 18, 127232, 127242, 18, 127248, 127278, 18, 127280, 127311, 18,
+  127338, 127340, 18, 127376, 127376, 18, 127488, 127490, 18, 127504, 127547, 18,
+  127552, 127560, 18, 127568, 127569, 18, 130032, 130041, 18, 194560, 195101, 23
+]);
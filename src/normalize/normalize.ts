@@ -1,16 +1,99 @@
 import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
-import type { Provenance, TextInput } from "../core/types.ts";
+import type { Provenance, Span, TextInput } from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { lookupProperty } from "../unicode/lookup.ts";
 import { CCC_RANGES } from "./generated/ccc.ts";
 import { COMPOSE_DATA, COMPOSE_INDEX, COMPOSE_STARTERS } from "./generated/composition.ts";
-import { DECOMP_CODEPOINTS, DECOMP_COMPAT, DECOMP_DATA, DECOMP_INDEX } from "./generated/decomp.ts";
+import {
+  DECOMP_CODEPOINTS,
+  DECOMP_COMPAT,
+  DECOMP_DATA,
+  DECOMP_INDEX,
+  DECOMP_TYPE,
+  DECOMP_TYPE_NAMES,
+} from "./generated/decomp.ts";
+import { QC_RANGES } from "./generated/quick-check.ts";
 
 /**
  * NormalizationForm defines an exported type contract.
+ * `FCC` is the UTN #5 form: canonical decomposition, then composition of contiguous
+ * characters only. Its output is always FCD.
  */
-export type NormalizationForm = "NFC" | "NFD" | "NFKC" | "NFKD";
+export type NormalizationForm = "NFC" | "NFD" | "NFKC" | "NFKD" | "FCC";
+
+/**
+ * QuickCheckResult is the UAX #15 quick-check answer: `MAYBE` means only a full
+ * normalization can decide.
+ */
+export type QuickCheckResult = "YES" | "NO" | "MAYBE";
+
+/**
+ * NormalizationMapSegment aligns an input span with the output span it normalizes to.
+ * `identity` segments are unchanged and map offsets one to one; other segments map only as
+ * a whole.
+ */
+export interface NormalizationMapSegment {
+  input: Span;
+  output: Span;
+  identity: boolean;
+}
+
+/**
+ * NormalizationWithMap defines an exported structural contract.
+ * `segments` cover input and output in order; adjacent identity segments are merged.
+ * `toInputSpan` / `toOutputSpan` return the minimal span covering everything the given span
+ * maps to; an empty span maps to an empty span, or to its whole segment inside a changed one.
+ */
+export interface NormalizationWithMap {
+  form: NormalizationForm;
+  text: string;
+  segments: NormalizationMapSegment[];
+  toInputSpan: (span: Span) => Span;
+  toOutputSpan: (span: Span) => Span;
+  provenance: Provenance;
+}
+
+/**
+ * DecompositionTag is a UnicodeData.txt compatibility formatting tag such as `<font>`,
+ * `<wide>`, `<fraction>` or `<compat>`.
+ */
+export type DecompositionTag = `<${Exclude<(typeof DECOMP_TYPE_NAMES)[number], "canonical">}>`;
+
+/**
+ * NormalizationChangeReason is one step that altered a span.
+ * - `canonical-decomposition` / `compatibility-decomposition`: `codePoint` was decomposed;
+ *   nested decompositions are listed after the code point that contained them.
+ * - `reordering`: combining marks were put in canonical order.
+ * - `composition`: `codePoint` is a composite formed from the decomposed text.
+ */
+export interface NormalizationChangeReason {
+  kind: "canonical-decomposition" | "compatibility-decomposition" | "reordering" | "composition";
+  codePoint?: number;
+  tag?: DecompositionTag;
+}
+
+/**
+ * NormalizationChange is one altered input span and what it became.
+ * `before` and `after` are the code points of the input and output spans.
+ */
+export interface NormalizationChange {
+  input: Span;
+  output: Span;
+  before: number[];
+  after: number[];
+  reasons: NormalizationChangeReason[];
+}
+
+/**
+ * NormalizationChangeReport defines an exported structural contract.
+ */
+export interface NormalizationChangeReport {
+  form: NormalizationForm;
+  output: string;
+  changes: NormalizationChange[];
+  provenance: Provenance;
+}
 
 /**
  * NormalizationExplanation defines an exported structural contract.
@@ -30,6 +113,16 @@ export interface NormalizationExplanation {
 const TR15_SPEC = "https://unicode.org/reports/tr15/";
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 
+/** Bits of the generated QC_RANGES table, per form. */
+const QC_FLAGS: Record<NormalizationForm, { no: number; maybe: number }> = {
+  NFD: { no: 1, maybe: 0 },
+  NFKD: { no: 2, maybe: 0 },
+  NFC: { no: 4, maybe: 8 },
+  NFKC: { no: 16, maybe: 32 },
+  // FCC shares NFC's compositions; its quick check adds the FCD ordering test.
+  FCC: { no: 4, maybe: 8 },
+};
+
 const SBase = 0xac00;
 const LBase = 0x1100;
 const VBase = 0x1161;
@@ -115,20 +208,37 @@ function decomposeCodePoint(codePoint: number, compatibility: boolean, out: numb
   }
 }
 
-function decomposeText(text: string, compatibility: boolean): number[] {
+/**
+ * Source spans (UTF-16 code units) of each code point, kept parallel to the code point array
+ * through decomposition, reordering and composition.
+ */
+interface CodePointOrigins {
+  start: number[];
+  end: number[];
+}
+
+function decomposeText(text: string, compatibility: boolean, origins?: CodePointOrigins): number[] {
   const out: number[] = [];
   for (let i = 0; i < text.length; ) {
     const codePoint = text.codePointAt(i) ?? 0;
     decomposeCodePoint(codePoint, compatibility, out);
-    i += codePoint > 0xffff ? 2 : 1;
+    const next = i + (codePoint > 0xffff ? 2 : 1);
+    if (origins) {
+      while (origins.start.length < out.length) {
+        origins.start.push(i);
+        origins.end.push(next);
+      }
+    }
+    i = next;
   }
   return out;
 }
 
-function reorderCanonical(codePoints: number[]): number[] {
+function reorderCanonical(codePoints: number[], origins?: CodePointOrigins): number[] {
   const out: number[] = [];
   let lastStarterIndex = -1;
-  for (const codePoint of codePoints) {
+  for (let index = 0; index < codePoints.length; index += 1) {
+    const codePoint = codePoints[index] ?? 0;
     const ccc = getCombiningClass(codePoint);
     if (ccc === 0) {
       out.push(codePoint);
@@ -137,14 +247,24 @@ function reorderCanonical(codePoints: number[]): number[] {
     }
     let insertIndex = out.length;
     out.push(codePoint);
+    const start = origins?.start[index] ?? 0;
+    const end = origins?.end[index] ?? 0;
     while (
       insertIndex > lastStarterIndex + 1 &&
       getCombiningClass(out[insertIndex - 1] ?? 0) > ccc
     ) {
       out[insertIndex] = out[insertIndex - 1] ?? 0;
+      if (origins) {
+        origins.start[insertIndex] = origins.start[insertIndex - 1] ?? 0;
+        origins.end[insertIndex] = origins.end[insertIndex - 1] ?? 0;
+      }
       insertIndex -= 1;
     }
     out[insertIndex] = codePoint;
+    if (origins) {
+      origins.start[insertIndex] = start;
+      origins.end[insertIndex] = end;
+    }
   }
   return out;
 }
@@ -190,26 +310,45 @@ function composePair(starter: number, combining: number): number | null {
   return null;
 }
 
-function composeCanonical(codePoints: number[]): number[] {
+/**
+ * Canonical composition; with `contiguous` (FCC) a character only composes with a starter
+ * immediately before it, after earlier compositions.
+ */
+function composeCanonical(
+  codePoints: number[],
+  contiguous: boolean,
+  origins?: CodePointOrigins,
+): number[] {
   if (codePoints.length === 0) return [];
   const out: number[] = [];
+  const outOrigins: CodePointOrigins = { start: [], end: [] };
   let starterIndex = -1;
   let starter = 0;
   let lastCCC = 0;
+  const absorb = (index: number) => {
+    if (!origins) return;
+    const start = origins.start[index] ?? 0;
+    const end = origins.end[index] ?? 0;
+    outOrigins.start[starterIndex] = Math.min(outOrigins.start[starterIndex] ?? start, start);
+    outOrigins.end[starterIndex] = Math.max(outOrigins.end[starterIndex] ?? end, end);
+  };
 
-  for (const codePoint of codePoints) {
+  for (let index = 0; index < codePoints.length; index += 1) {
+    const codePoint = codePoints[index] ?? 0;
     const ccc = getCombiningClass(codePoint);
-    if (starterIndex >= 0) {
+    if (starterIndex >= 0 && (!contiguous || starterIndex === out.length - 1)) {
       const hangul = composeHangul(starter, codePoint);
       if (hangul !== null && lastCCC === 0) {
         out[starterIndex] = hangul;
         starter = hangul;
+        absorb(index);
         continue;
       }
       const composed = composePair(starter, codePoint);
       if (composed !== null && (lastCCC < ccc || lastCCC === 0)) {
         out[starterIndex] = composed;
         starter = composed;
+        absorb(index);
         continue;
       }
     }
@@ -221,6 +360,14 @@ function composeCanonical(codePoints: number[]): number[] {
       lastCCC = ccc;
     }
     out.push(codePoint);
+    if (origins) {
+      outOrigins.start.push(origins.start[index] ?? 0);
+      outOrigins.end.push(origins.end[index] ?? 0);
+    }
+  }
+  if (origins) {
+    origins.start = outOrigins.start;
+    origins.end = outOrigins.end;
   }
   return out;
 }
@@ -236,12 +383,16 @@ function codePointsToString(codePoints: number[]): string {
   return chunks.join("");
 }
 
-function normalizeToCodePoints(text: string, form: NormalizationForm): number[] {
+function normalizeToCodePoints(
+  text: string,
+  form: NormalizationForm,
+  origins?: CodePointOrigins,
+): number[] {
   const compatibility = form === "NFKC" || form === "NFKD";
-  const compose = form === "NFC" || form === "NFKC";
-  const decomposed = decomposeText(text, compatibility);
-  const reordered = reorderCanonical(decomposed);
-  return compose ? composeCanonical(reordered) : reordered;
+  const compose = form === "NFC" || form === "NFKC" || form === "FCC";
+  const decomposed = decomposeText(text, compatibility, origins);
+  const reordered = reorderCanonical(decomposed, origins);
+  return compose ? composeCanonical(reordered, form === "FCC", origins) : reordered;
 }
 
 /**
@@ -254,14 +405,282 @@ export function normalize(input: TextInput, form: NormalizationForm): string {
   return codePointsToString(codePoints);
 }
 
+interface SegmentGroup {
+  input: Span;
+  output: Span;
+  /** Output code point index range. */
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Group output code points into aligned segments: code points join the previous group while
+ * their source starts before that group's end, and groups merge backwards while they overlap
+ * in the input. Reordered and composed code points therefore share a segment with everything
+ * they were moved across or merged with.
+ */
+function buildNormalizationSegments(
+  text: string,
+  codePoints: number[],
+  origins: CodePointOrigins,
+): NormalizationMapSegment[] {
+  const groups: SegmentGroup[] = [];
+  let outputCU = 0;
+  for (let index = 0; index < codePoints.length; index += 1) {
+    const start = origins.start[index] ?? 0;
+    const end = origins.end[index] ?? 0;
+    const width = (codePoints[index] ?? 0) > 0xffff ? 2 : 1;
+    let group = groups[groups.length - 1];
+    if (group && start < group.input.endCU) {
+      group.input.startCU = Math.min(group.input.startCU, start);
+      group.input.endCU = Math.max(group.input.endCU, end);
+      group.output.endCU += width;
+      group.endIndex = index + 1;
+      let previous = groups[groups.length - 2];
+      while (previous && group.input.startCU < previous.input.endCU) {
+        previous.input.startCU = Math.min(previous.input.startCU, group.input.startCU);
+        previous.input.endCU = Math.max(previous.input.endCU, group.input.endCU);
+        previous.output.endCU = group.output.endCU;
+        previous.endIndex = group.endIndex;
+        groups.pop();
+        group = previous;
+        previous = groups[groups.length - 2];
+      }
+    } else {
+      groups.push({
+        input: { startCU: start, endCU: end },
+        output: { startCU: outputCU, endCU: outputCU + width },
+        startIndex: index,
+        endIndex: index + 1,
+      });
+    }
+    outputCU += width;
+  }
+
+  const segments: NormalizationMapSegment[] = [];
+  for (const { input, output, startIndex, endIndex } of groups) {
+    const identity =
+      input.endCU - input.startCU === output.endCU - output.startCU &&
+      text.slice(input.startCU, input.endCU) ===
+        codePointsToString(codePoints.slice(startIndex, endIndex));
+    const previous = segments[segments.length - 1];
+    if (identity && previous?.identity) {
+      previous.input.endCU = input.endCU;
+      previous.output.endCU = output.endCU;
+    } else {
+      segments.push({ input, output, identity });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Project `span` from one side of the segment map to the other. Identity segments map offsets
+ * one to one; any overlap with another segment covers that segment's whole opposite span.
+ */
+function projectSpan(
+  segments: NormalizationMapSegment[],
+  span: Span,
+  from: "input" | "output",
+  to: "input" | "output",
+): Span {
+  const last = segments[segments.length - 1];
+  if (!last) return { startCU: 0, endCU: 0 };
+  const clamp = (offset: number) => Math.min(Math.max(Math.floor(offset), 0), last[from].endCU);
+  const startCU = clamp(span.startCU);
+  const endCU = Math.max(startCU, clamp(span.endCU));
+
+  // First segment ending after `startCU`.
+  let low = 0;
+  let high = segments.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if ((segments[mid]?.[from].endCU ?? 0) > startCU) high = mid;
+    else low = mid + 1;
+  }
+  const first = segments[low];
+  if (!first) return { startCU: last[to].endCU, endCU: last[to].endCU };
+  if (startCU === endCU) {
+    const source = first[from];
+    const target = first[to];
+    if (first.identity || startCU === source.startCU) {
+      const offset = target.startCU + startCU - source.startCU;
+      return { startCU: offset, endCU: offset };
+    }
+    return { startCU: target.startCU, endCU: target.endCU };
+  }
+
+  let resultStart = Number.POSITIVE_INFINITY;
+  let resultEnd = 0;
+  for (let index = low; index < segments.length; index += 1) {
+    const segment = segments[index];
+    if (!segment || segment[from].startCU >= endCU) break;
+    const source = segment[from];
+    const target = segment[to];
+    if (segment.identity) {
+      resultStart = Math.min(
+        resultStart,
+        target.startCU + Math.max(startCU, source.startCU) - source.startCU,
+      );
+      resultEnd = target.startCU + Math.min(endCU, source.endCU) - source.startCU;
+    } else {
+      resultStart = Math.min(resultStart, target.startCU);
+      resultEnd = target.endCU;
+    }
+  }
+  return { startCU: resultStart, endCU: resultEnd };
+}
+
+/**
+ * Normalize and keep a segment map between input and output offsets. Canonical reordering
+ * and (Hangul) composition keep every affected code point inside one segment, so projected
+ * spans always cover all text a span came from or turned into. Spans are clamped to the text.
+ * Units: UTF-16 code units.
+ */
+export function normalizeWithMap(input: TextInput, form: NormalizationForm): NormalizationWithMap {
+  const { text } = normalizeInput(input);
+  const origins: CodePointOrigins = { start: [], end: [] };
+  const codePoints = normalizeToCodePoints(text, form, origins);
+  const segments = buildNormalizationSegments(text, codePoints, origins);
+  return {
+    form,
+    text: codePointsToString(codePoints),
+    segments,
+    toInputSpan: (span) => projectSpan(segments, span, "output", "input"),
+    toOutputSpan: (span) => projectSpan(segments, span, "input", "output"),
+    provenance: createProvenance(
+      {
+        name: "UAX15.NormalizeWithMap",
+        spec: TR15_SPEC,
+        revisionOrDate: DEFAULT_ALGORITHM_REVISION,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      { form },
+      { text: "utf16-code-unit", codePoint: "unicode-code-point" },
+    ),
+  };
+}
+
+const NO_FCD_CLASSES: readonly [lead: number, trail: number] = [0, 0];
+const fcdClassCache = new Map<number, readonly [lead: number, trail: number]>();
+
+/**
+ * Combining classes of the first and last code point of the canonical decomposition
+ * (UTN #5 lead and trail ccc).
+ */
+function fcdCombiningClasses(codePoint: number): readonly [lead: number, trail: number] {
+  // Nothing below U+00C0 decomposes.
+  if (codePoint < 0xc0) return NO_FCD_CLASSES;
+  const cached = fcdClassCache.get(codePoint);
+  if (cached !== undefined) return cached;
+  const decomposed: number[] = [];
+  decomposeCodePoint(codePoint, false, decomposed);
+  const lead = getCombiningClass(decomposed[0] ?? 0);
+  const trail = getCombiningClass(decomposed[decomposed.length - 1] ?? 0);
+  const classes = lead === 0 && trail === 0 ? NO_FCD_CLASSES : ([lead, trail] as const);
+  fcdClassCache.set(codePoint, classes);
+  return classes;
+}
+
+/**
+ * UTN #5 FCD check: the concatenated canonical decompositions of the code points are already
+ * in canonical order, so canonically equivalent processing can skip decomposing them.
+ * Units: Unicode scalar values.
+ */
+export function isFCD(input: TextInput): boolean {
+  const { text } = normalizeInput(input);
+  let previousTrail = 0;
+  for (let i = 0; i < text.length; ) {
+    const codePoint = text.codePointAt(i) ?? 0;
+    i += codePoint > 0xffff ? 2 : 1;
+    const [lead, trail] = fcdCombiningClasses(codePoint);
+    if (lead !== 0 && previousTrail > lead) return false;
+    previousTrail = trail;
+  }
+  return true;
+}
+
+/** Classes compared for canonical ordering: FCC checks FCD order, other forms raw ccc. */
+function orderingClasses(codePoint: number, form: NormalizationForm): readonly [number, number] {
+  if (form === "FCC") return fcdCombiningClasses(codePoint);
+  const ccc = getCombiningClass(codePoint);
+  return [ccc, ccc];
+}
+
+function quickCheckAt(codePoint: number, flags: { no: number; maybe: number }): QuickCheckResult {
+  const value = lookupProperty(QC_RANGES, codePoint);
+  if (value & flags.no) return "NO";
+  if (value & flags.maybe) return "MAYBE";
+  return "YES";
+}
+
+/**
+ * UAX #15 quick check using the NFD_QC/NFKD_QC/NFC_QC/NFKC_QC properties and canonical
+ * ordering; no normalization is performed. FCC uses NFC_QC and FCD ordering.
+ * Units: Unicode scalar values.
+ */
+export function quickCheck(input: TextInput, form: NormalizationForm): QuickCheckResult {
+  const { text } = normalizeInput(input);
+  const flags = QC_FLAGS[form];
+  let lastTrail = 0;
+  let result: QuickCheckResult = "YES";
+  for (let i = 0; i < text.length; ) {
+    const codePoint = text.codePointAt(i) ?? 0;
+    i += codePoint > 0xffff ? 2 : 1;
+    const [lead, trail] = orderingClasses(codePoint, form);
+    if (lead !== 0 && lastTrail > lead) return "NO";
+    const check = quickCheckAt(codePoint, flags);
+    if (check === "NO") return "NO";
+    if (check === "MAYBE") result = "MAYBE";
+    lastTrail = trail;
+  }
+  return result;
+}
+
+/**
+ * Index of the first normalization segment that the form would change, or -1 if the text
+ * is already normalized. The prefix before the index is normalized and
+ * `normalize(text) === text.slice(0, index) + normalize(text.slice(index))`.
+ * Segments start at code points with ccc 0 and quick-check YES, so the index can precede the
+ * first changed code point; only segments whose quick check is MAYBE are normalized to decide.
+ * Units: UTF-16 code units.
+ */
+export function firstUnnormalizedIndex(input: TextInput, form: NormalizationForm): number {
+  const { text } = normalizeInput(input);
+  const flags = QC_FLAGS[form];
+  let segmentStart = 0;
+  let lastTrail = 0;
+  let maybe = false;
+  const segmentChanges = (end: number) => {
+    const segment = text.slice(segmentStart, end);
+    return normalize(segment, form) !== segment;
+  };
+  for (let i = 0; i < text.length; ) {
+    const codePoint = text.codePointAt(i) ?? 0;
+    const [lead, trail] = orderingClasses(codePoint, form);
+    const check = quickCheckAt(codePoint, flags);
+    if (lead === 0 && check === "YES") {
+      if (maybe && segmentChanges(i)) return segmentStart;
+      maybe = false;
+      segmentStart = i;
+    } else if (check === "NO" || (lead !== 0 && lastTrail > lead)) {
+      return segmentStart;
+    } else if (check === "MAYBE") {
+      maybe = true;
+    }
+    lastTrail = trail;
+    i += codePoint > 0xffff ? 2 : 1;
+  }
+  if (maybe && segmentChanges(text.length)) return segmentStart;
+  return -1;
+}
+
 /**
  * Check if text is normalized to the requested form.
  * Units: bytes (UTF-8).
  */
 export function isNormalized(input: TextInput, form: NormalizationForm): boolean {
-  const { text } = normalizeInput(input);
-  const normalized = normalize(text, form);
-  return normalized === text;
+  return firstUnnormalizedIndex(input, form) === -1;
 }
 
 /**
@@ -325,10 +744,10 @@ export function explainNormalization(
 ): NormalizationExplanation {
   const { text } = normalizeInput(input);
   const compatibility = form === "NFKC" || form === "NFKD";
-  const compose = form === "NFC" || form === "NFKC";
+  const compose = form === "NFC" || form === "NFKC" || form === "FCC";
   const decomposed = decomposeText(text, compatibility);
   const reordered = reorderCanonical(decomposed);
-  const composed = compose ? composeCanonical(reordered) : reordered;
+  const composed = compose ? composeCanonical(reordered, form === "FCC") : reordered;
   return {
     form,
     input: text,
@@ -350,3 +769,115 @@ export function explainNormalization(
     },
   };
 }
+
+function codePointsOf(text: string): number[] {
+  const codePoints: number[] = [];
+  for (let i = 0; i < text.length; ) {
+    const codePoint = text.codePointAt(i) ?? 0;
+    codePoints.push(codePoint);
+    i += codePoint > 0xffff ? 2 : 1;
+  }
+  return codePoints;
+}
+
+/** Record each decomposition `decomposeCodePoint` would apply, outermost first. */
+function collectDecompositionReasons(
+  codePoint: number,
+  compatibility: boolean,
+  reasons: NormalizationChangeReason[],
+): void {
+  if (isHangulSyllable(codePoint)) {
+    reasons.push({ kind: "canonical-decomposition", codePoint });
+    return;
+  }
+  const index = findDecompositionIndex(codePoint);
+  if (index < 0) return;
+  const type = DECOMP_TYPE[index] ?? 0;
+  if (type !== 0) {
+    if (!compatibility) return;
+    const tag = `<${DECOMP_TYPE_NAMES[type] ?? "compat"}>` as DecompositionTag;
+    reasons.push({ kind: "compatibility-decomposition", codePoint, tag });
+  } else {
+    reasons.push({ kind: "canonical-decomposition", codePoint });
+  }
+  const end = DECOMP_INDEX[index + 1] ?? 0;
+  for (let i = DECOMP_INDEX[index] ?? end; i < end; i += 1) {
+    collectDecompositionReasons(DECOMP_DATA[i] ?? 0, compatibility, reasons);
+  }
+}
+
+/**
+ * Reasons for one segment, found by normalizing its input on its own: segments never
+ * interact, and stage origins (indices into the previous stage) reveal reordering and
+ * composition.
+ */
+function explainSegment(source: string, form: NormalizationForm): NormalizationChangeReason[] {
+  const compatibility = form === "NFKC" || form === "NFKD";
+  const compose = form === "NFC" || form === "NFKC" || form === "FCC";
+  const reasons: NormalizationChangeReason[] = [];
+  for (const codePoint of codePointsOf(source)) {
+    collectDecompositionReasons(codePoint, compatibility, reasons);
+  }
+  const decomposed = decomposeText(source, compatibility);
+  const indices = () => ({
+    start: decomposed.map((_, index) => index),
+    end: decomposed.map((_, index) => index + 1),
+  });
+  const reorderOrigins = indices();
+  const reordered = reorderCanonical(decomposed, reorderOrigins);
+  if (reorderOrigins.start.some((origin, index) => origin !== index)) {
+    reasons.push({ kind: "reordering" });
+  }
+  if (!compose) return reasons;
+  const composeOrigins = indices();
+  const composed = composeCanonical(reordered, form === "FCC", composeOrigins);
+  composed.forEach((codePoint, index) => {
+    const start = composeOrigins.start[index] ?? 0;
+    const end = composeOrigins.end[index] ?? 0;
+    if (end - start > 1) reasons.push({ kind: "composition", codePoint });
+  });
+  return reasons;
+}
+
+/**
+ * Report every input span the form alters, with before/after code points and the
+ * decomposition (with its compatibility tag), reordering and composition steps behind it.
+ * Spans are the changed segments of `normalizeWithMap`.
+ * Units: UTF-16 code units.
+ */
+export function reportNormalizationChanges(
+  input: TextInput,
+  form: NormalizationForm,
+): NormalizationChangeReport {
+  const { text } = normalizeInput(input);
+  const origins: CodePointOrigins = { start: [], end: [] };
+  const codePoints = normalizeToCodePoints(text, form, origins);
+  const output = codePointsToString(codePoints);
+  const changes: NormalizationChange[] = [];
+  for (const segment of buildNormalizationSegments(text, codePoints, origins)) {
+    if (segment.identity) continue;
+    const source = text.slice(segment.input.startCU, segment.input.endCU);
+    changes.push({
+      input: segment.input,
+      output: segment.output,
+      before: codePointsOf(source),
+      after: codePointsOf(output.slice(segment.output.startCU, segment.output.endCU)),
+      reasons: explainSegment(source, form),
+    });
+  }
+  return {
+    form,
+    output,
+    changes,
+    provenance: createProvenance(
+      {
+        name: "UAX15.NormalizationChanges",
+        spec: TR15_SPEC,
+        revisionOrDate: DEFAULT_ALGORITHM_REVISION,
+        implementationId: IMPLEMENTATION_ID,
+      },
+      { form },
+      { text: "utf16-code-unit", codePoint: "unicode-code-point" },
+    ),
+  };
+}
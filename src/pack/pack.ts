@@ -7,12 +7,18 @@ import { sliceBySpan } from "../core/span.ts";
 import type { Provenance, Span, TextInput } from "../core/types.ts";
 import { IMPLEMENTATION_ID, LIBRARY_VERSION } from "../core/version.ts";
 import { buildFingerprintIndex } from "../corpus/fingerprint-index.ts";
-import type {
-  WordCooccurrenceItem,
-  WordFrequencyItem,
-  WordNgramItem,
-  WordTokenFilter,
-} from "../facts/word.ts";
+import {
+  type WordDispersionOptions,
+  type WordDispersionResult,
+  corpusWordDispersion,
+  wordDispersion,
+} from "../facts/dispersion.ts";
+import {
+  type CompiledWordTokenFilter,
+  type WordTokenFilter,
+  compileWordTokenFilter,
+} from "../facts/token-filter.ts";
+import type { WordCooccurrenceItem, WordFrequencyItem, WordNgramItem } from "../facts/word.ts";
 import {
   type Fingerprint,
   type WinnowingOptions,
@@ -25,9 +31,12 @@ import {
   surfaceProfile,
 } from "../profile/surface-profile.ts";
 import { segmentGraphemes } from "../segment/grapheme.ts";
-import { segmentSentencesUAX29 } from "../segment/sentence.ts";
+import {
+  type SentenceSegmentOptions,
+  normalizeSentenceSuppressions,
+  segmentSentencesUAX29,
+} from "../segment/sentence.ts";
 import { segmentWordsUAX29 } from "../segment/word.ts";
-import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
 import {
   type VariantIndex,
   type VariantIndexOptions,
@@ -54,6 +63,11 @@ export interface PackOptions {
     minCount?: number;
     maxPairs?: number;
   };
+  /** Word dispersion over sentences (`analyzeText`) or documents (`analyzeCorpus`). */
+  dispersion?: {
+    minCount?: number;
+    topK?: number;
+  };
   maxPositions?: number;
   maxOutputBytes?: number;
   includeBoundaries?: boolean;
@@ -64,6 +78,7 @@ export interface PackOptions {
   fingerprint?: WinnowingOptions;
   includeRepetition?: boolean;
   includeDuplicateSentences?: boolean;
+  sentenceSuppressions?: string[];
 }
 
 /**
@@ -264,6 +279,9 @@ export interface FactPack {
   cooccurrence?: {
     words: CooccurrenceTable;
   };
+  dispersion?: {
+    words: WordDispersionResult;
+  };
   repetition?: {
     wordNgrams?: {
       items: RepetitionItem[];
@@ -296,6 +314,7 @@ export interface CorpusPack {
   frequencies: FactPack["frequencies"];
   ngrams?: FactPack["ngrams"];
   cooccurrence?: FactPack["cooccurrence"];
+  dispersion?: FactPack["dispersion"];
   repetition?: {
     wordNgrams?: {
       items: RepetitionItem[];
@@ -335,33 +354,11 @@ const DEFAULT_FULL_MODE_INPUT_LIMIT = 8_000_000;
 const DEFAULT_CORPUS_FILTER = "word-like";
 const PACK_SPEC = "textfacts:pack";
 const INVISIBLE_CODEPOINTS = new Set([0x200b, 0x200c, 0x200d, 0x2060, 0xfeff]);
-const WORDLIKE_PROPS = new Set<number>([
-  WordBreakPropertyId.ALetter,
-  WordBreakPropertyId.Hebrew_Letter,
-  WordBreakPropertyId.Numeric,
-  WordBreakPropertyId.Katakana,
-  WordBreakPropertyId.ExtendNumLet,
-]);
-
-function isWordLikeToken(token: string): boolean {
-  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
-    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
-    const wordBreakPropertyId = getWordBreakPropertyId(codePoint);
-    if (WORDLIKE_PROPS.has(wordBreakPropertyId)) return true;
-    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
-  }
-  return false;
-}
-
-function shouldIncludeToken(token: string, filter: WordTokenFilter): boolean {
-  if (filter === "all") return true;
-  return isWordLikeToken(token);
-}
-
 function createPackProvenance(
   name: "Pack.AnalyzeText" | "Pack.AnalyzeCorpus",
   options: NormalizedPackOptions,
 ): Provenance {
+  const { tokenFilter, ...config } = options;
   return createProvenance(
     {
       name,
@@ -369,7 +366,7 @@ function createPackProvenance(
       revisionOrDate: LIBRARY_VERSION,
       implementationId: IMPLEMENTATION_ID,
     },
-    options,
+    { ...config, filter: tokenFilter.config },
     {
       text: "utf16-code-unit",
       token: "uax29-word",
@@ -381,15 +378,27 @@ function createPackProvenance(
 }
 
 type NormalizedPackOptions = Required<
-  Omit<PackOptions, "variants" | "profile" | "fingerprint" | "ngrams" | "cooccurrence">
+  Omit<
+    PackOptions,
+    | "variants"
+    | "profile"
+    | "fingerprint"
+    | "ngrams"
+    | "cooccurrence"
+    | "dispersion"
+    | "sentenceSuppressions"
+  >
 > & {
   variants?: VariantIndexOptions;
   profile?: SurfaceProfileOptions;
   fingerprint?: WinnowingOptions;
   ngrams?: PackOptions["ngrams"];
   cooccurrence?: PackOptions["cooccurrence"];
+  dispersion?: PackOptions["dispersion"];
+  sentenceSuppressions?: string[];
   includeRepetition: boolean;
   includeDuplicateSentences: boolean;
+  tokenFilter: CompiledWordTokenFilter;
 };
 
 type FullModeGuardInput = {
@@ -459,8 +468,10 @@ function normalizePackOptions(options: PackOptions): NormalizedPackOptions {
     cooccurrence.maxPairs = cooccurrenceMaxPairs;
   }
 
+  const filter = options.filter ?? "all";
   const normalized: NormalizedPackOptions = {
-    filter: options.filter ?? "all",
+    filter,
+    tokenFilter: compileWordTokenFilter(filter),
     topK,
     includeAllFrequencies,
     mode,
@@ -479,9 +490,38 @@ function normalizePackOptions(options: PackOptions): NormalizedPackOptions {
   if (options.variants) normalized.variants = options.variants;
   if (options.profile) normalized.profile = options.profile;
   if (options.fingerprint) normalized.fingerprint = options.fingerprint;
+  if (options.dispersion) {
+    normalized.dispersion = {
+      minCount: Math.max(1, Math.floor(options.dispersion.minCount ?? 1)),
+      topK: Math.max(0, Math.floor(options.dispersion.topK ?? topK)),
+    };
+  }
+  const sentenceSuppressions = normalizeSentenceSuppressions(options.sentenceSuppressions);
+  if (sentenceSuppressions.length > 0) normalized.sentenceSuppressions = sentenceSuppressions;
   return normalized;
 }
 
+function sentenceSegmentOptions(options: NormalizedPackOptions): SentenceSegmentOptions {
+  const segmentOptions: SentenceSegmentOptions = { algorithmRevision: options.algorithmRevision };
+  if (options.sentenceSuppressions) segmentOptions.suppressions = options.sentenceSuppressions;
+  return segmentOptions;
+}
+
+function dispersionOptions(options: NormalizedPackOptions): WordDispersionOptions {
+  const dispersion: WordDispersionOptions = {
+    filter: options.filter,
+    algorithmRevision: options.algorithmRevision,
+  };
+  if (options.dispersion?.minCount !== undefined) {
+    dispersion.minCount = options.dispersion.minCount;
+  }
+  if (options.dispersion?.topK !== undefined) dispersion.topK = options.dispersion.topK;
+  if (options.sentenceSuppressions) {
+    dispersion.sentenceSuppressions = options.sentenceSuppressions;
+  }
+  return dispersion;
+}
+
 function countCodePoints(text: string): number {
   let count = 0;
   for (let codeUnitIndex = 0; codeUnitIndex < text.length; ) {
@@ -520,7 +560,10 @@ function collectSpans(
 
 function collectWordTokenStats(
   text: string,
-  options: Pick<NormalizedPackOptions, "filter" | "algorithmRevision" | "ngrams" | "cooccurrence">,
+  options: Pick<
+    NormalizedPackOptions,
+    "tokenFilter" | "algorithmRevision" | "ngrams" | "cooccurrence"
+  >,
 ): TokenizationStats {
   const tokenFrequency = new Map<string, number>();
   const ngramCounts = options.ngrams
@@ -539,7 +582,7 @@ function collectWordTokenStats(
 
   for (const span of segmentWordsUAX29(text, { algorithmRevision: options.algorithmRevision })) {
     const token = sliceBySpan(text, span);
-    if (!shouldIncludeToken(token, options.filter)) continue;
+    if (!options.tokenFilter.accepts(token)) continue;
     totalTokens += 1;
     tokenFrequency.set(token, (tokenFrequency.get(token) ?? 0) + 1);
 
@@ -857,9 +900,7 @@ function buildDuplicateSentences(
   options: NormalizedPackOptions,
 ): { items: DuplicateSpanItem[]; totalDuplicates: number } {
   const map = new Map<string, { count: number; spans: Span[] }>();
-  for (const span of segmentSentencesUAX29(text, {
-    algorithmRevision: options.algorithmRevision,
-  })) {
+  for (const span of segmentSentencesUAX29(text, sentenceSegmentOptions(options))) {
     const sentence = text.slice(span.startCU, span.endCU);
     const entry = map.get(sentence);
     if (entry) {
@@ -958,7 +999,7 @@ export function analyzeText(input: TextInput, options: PackOptions = {}): FactPa
     context: "analyzeText",
   });
   const tokenStats = collectWordTokenStats(text, {
-    filter: normalizedOptions.filter,
+    tokenFilter: normalizedOptions.tokenFilter,
     algorithmRevision: normalizedOptions.algorithmRevision,
     ngrams: normalizedOptions.ngrams,
     cooccurrence: normalizedOptions.cooccurrence,
@@ -996,7 +1037,7 @@ export function analyzeText(input: TextInput, options: PackOptions = {}): FactPa
         )
       : { count: tokenStats.totalTokens },
     sentences: collectSpans(
-      segmentSentencesUAX29(text, { algorithmRevision: normalizedOptions.algorithmRevision }),
+      segmentSentencesUAX29(text, sentenceSegmentOptions(normalizedOptions)),
       normalizedOptions.includeBoundaries,
       normalizedOptions.maxPositions,
     ),
@@ -1067,6 +1108,9 @@ export function analyzeText(input: TextInput, options: PackOptions = {}): FactPa
   };
   if (ngramTable) pack.ngrams = { words: ngramTable };
   if (cooccurrenceTable) pack.cooccurrence = { words: cooccurrenceTable };
+  if (normalizedOptions.dispersion) {
+    pack.dispersion = { words: wordDispersion(text, dispersionOptions(normalizedOptions)) };
+  }
   if (repetition || duplicateSentences) {
     pack.repetition = {};
     if (repetition) pack.repetition.wordNgrams = repetition;
@@ -1164,7 +1208,7 @@ export function analyzeCorpus(
       cumulativeCodeUnits: totalCodeUnits + text.length,
     });
     const tokenStats = collectWordTokenStats(text, {
-      filter: normalizedOptions.filter,
+      tokenFilter: normalizedOptions.tokenFilter,
       algorithmRevision: normalizedOptions.algorithmRevision,
       ngrams: normalizedOptions.ngrams,
       cooccurrence: normalizedOptions.cooccurrence,
@@ -1191,16 +1235,14 @@ export function analyzeCorpus(
     ).count;
     totalWords += tokenStats.totalTokens;
     if (includeDuplicateSentences) {
-      for (const span of segmentSentencesUAX29(text, {
-        algorithmRevision: normalizedOptions.algorithmRevision,
-      })) {
+      for (const span of segmentSentencesUAX29(text, sentenceSegmentOptions(normalizedOptions))) {
         const sentence = text.slice(span.startCU, span.endCU);
         duplicateSentenceMap.set(sentence, (duplicateSentenceMap.get(sentence) ?? 0) + 1);
         totalSentences += 1;
       }
     } else {
       totalSentences += collectSpans(
-        segmentSentencesUAX29(text, { algorithmRevision: normalizedOptions.algorithmRevision }),
+        segmentSentencesUAX29(text, sentenceSegmentOptions(normalizedOptions)),
         false,
         normalizedOptions.maxPositions,
       ).count;
@@ -1317,6 +1359,14 @@ export function analyzeCorpus(
       ),
     };
   }
+  if (normalizedOptions.dispersion) {
+    pack.dispersion = {
+      words: corpusWordDispersion(
+        corpusDocs.map((doc) => doc.text),
+        dispersionOptions(normalizedOptions),
+      ),
+    };
+  }
   if (normalizedOptions.includeRepetition && includeNgrams) {
     pack.repetition = {
       wordNgrams: buildRepetition(ngramFiltered, 2, normalizedOptions.topK),
@@ -8,10 +8,10 @@ import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { normalize } from "../normalize/normalize.ts";
 import { segmentGraphemes } from "../segment/grapheme.ts";
 import { segmentSentencesUAX29 } from "../segment/sentence.ts";
+import { WORD_LIKE_REVISION, isWordLikeToken } from "../segment/word-class.ts";
 import { segmentWordsUAX29 } from "../segment/word.ts";
 import { GENERAL_CATEGORY_NAMES, generalCategoryIdAt } from "../unicode/general-category.ts";
 import { SCRIPT_NAMES, scriptIdAt } from "../unicode/script.ts";
-import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
 
 /**
  * LengthHistogramBin defines an exported structural contract.
@@ -122,14 +122,6 @@ export interface SurfaceProfileBuilder {
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const PROFILE_SPEC = "textfacts:profile";
 
-const WORDLIKE_PROPS = new Set<number>([
-  WordBreakPropertyId.ALetter,
-  WordBreakPropertyId.Hebrew_Letter,
-  WordBreakPropertyId.Numeric,
-  WordBreakPropertyId.Katakana,
-  WordBreakPropertyId.ExtendNumLet,
-]);
-
 const PUNCTUATION_CATEGORIES = new Set(["Pc", "Pd", "Ps", "Pe", "Pi", "Pf", "Po"]);
 
 const WHITESPACE_CATEGORIES = new Set(["Zs", "Zl", "Zp"]);
@@ -138,16 +130,6 @@ const BIDI_CONTROLS = new Set([
   0x202a, 0x202b, 0x202c, 0x202d, 0x202e, 0x2066, 0x2067, 0x2068, 0x2069, 0x200e, 0x200f, 0x061c,
 ]);
 
-function isWordLikeToken(token: string): boolean {
-  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
-    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
-    const wordBreakPropertyId = getWordBreakPropertyId(codePoint);
-    if (WORDLIKE_PROPS.has(wordBreakPropertyId)) return true;
-    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
-  }
-  return false;
-}
-
 function buildHistogram(lengths: number[], bins: number[]): LengthHistogram {
   const sortedBins = [...bins].sort((leftBound, rightBound) => leftBound - rightBound);
   const counts = new Array(sortedBins.length).fill(0);
@@ -211,7 +193,9 @@ function buildProvenance(options: SurfaceProfileOptions): Provenance {
       revisionOrDate: DEFAULT_ALGORITHM_REVISION,
       implementationId: IMPLEMENTATION_ID,
     },
-    options,
+    (options.wordFilter ?? "word-like") === "word-like"
+      ? { ...options, wordFilter: "word-like", wordLike: WORD_LIKE_REVISION }
+      : options,
     {
       text: "utf16-code-unit",
       token: "unicode-code-point",
@@ -5,9 +5,9 @@ import { sliceBySpan } from "../core/span.ts";
 import type { Span, TextInput } from "../core/types.ts";
 import { segmentGraphemes } from "../segment/grapheme.ts";
 import { segmentSentencesUAX29 } from "../segment/sentence.ts";
-import { segmentWordsUAX29 } from "../segment/word.ts";
+import { isWordLikeToken } from "../segment/word-class.ts";
+import { type WordTailoring, segmentWordsUAX29 } from "../segment/word.ts";
 import { SCRIPT_NAMES, Script, scriptExtAt, scriptIdAt } from "../unicode/script.ts";
-import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
 import { confusableSkeleton } from "./confusables.ts";
 
 /**
@@ -32,6 +32,7 @@ export interface TokenScanOptions {
   canonicalize?: Canonicalization;
   maxTokens?: number;
   wordFilter?: "all" | "word-like";
+  wordTailorings?: WordTailoring[];
   customTokenizer?: (text: string) => Iterable<Span>;
 }
 
@@ -47,28 +48,10 @@ export interface ScannedToken {
   hasBidiControls: boolean;
 }
 
-const WORDLIKE_PROPS = new Set<number>([
-  WordBreakPropertyId.ALetter,
-  WordBreakPropertyId.Hebrew_Letter,
-  WordBreakPropertyId.Numeric,
-  WordBreakPropertyId.Katakana,
-  WordBreakPropertyId.ExtendNumLet,
-]);
-
-function isWordLikeToken(token: string): boolean {
-  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
-    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
-    const wordBreakPropertyId = getWordBreakPropertyId(codePoint);
-    if (WORDLIKE_PROPS.has(wordBreakPropertyId)) return true;
-    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
-  }
-  return false;
-}
-
 function iterateSpans(text: string, options: TokenScanOptions): Iterable<Span> {
   switch (options.tokenizer) {
     case "uax29-word":
-      return segmentWordsUAX29(text);
+      return segmentWordsUAX29(text, { tailorings: options.wordTailorings ?? [] });
     case "uax29-grapheme":
       return segmentGraphemes(text);
     case "uax29-sentence":
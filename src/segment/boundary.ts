@@ -0,0 +1,253 @@
+import type { Span } from "../core/types.ts";
+import { GraphemeBreakPropertyId, getGraphemeBreakPropertyId } from "../unicode/grapheme.ts";
+import { IncbPropertyId, getIncbPropertyId } from "../unicode/incb.ts";
+import { SentenceBreakPropertyId, getSentenceBreakPropertyId } from "../unicode/sentence.ts";
+import { WordBreakPropertyId } from "../unicode/word.ts";
+import { segmentGraphemes } from "./grapheme.ts";
+import {
+  type BoundaryResolver,
+  resolveGraphemeBoundary,
+  resolveSentenceBoundary,
+  resolveWordBoundary,
+  tailoredWordBreakPropertyId,
+} from "./internal.ts";
+import {
+  type SentenceSegmentOptions,
+  normalizeSentenceSuppressions,
+  segmentSentencesUAX29,
+} from "./sentence.ts";
+import { type WordSegmentOptions, normalizeWordTailorings, segmentWordsUAX29 } from "./word.ts";
+
+/**
+ * BoundaryKind defines an exported type contract.
+ */
+export type BoundaryKind = "grapheme" | "word" | "sentence";
+
+/**
+ * BoundaryOptions defines an exported structural contract.
+ * Word tailorings apply to `"word"` queries and suppressions to `"sentence"` queries.
+ */
+export interface BoundaryOptions extends WordSegmentOptions, SentenceSegmentOptions {}
+
+interface LocalRules {
+  segment: (text: string) => Iterable<Span>;
+  /**
+   * True when segmenting from `indexCU` as start-of-text reproduces every
+   * later decision, i.e. no rule reads left context before it.
+   */
+  isRestart: (text: string, indexCU: number) => boolean;
+  resolve: BoundaryResolver;
+}
+
+const INITIAL_WINDOW_CU = 64;
+
+const GRAPHEME_RULES: LocalRules = {
+  segment: (text) => segmentGraphemes(text),
+  isRestart: (text, indexCU) => {
+    const codePoint = text.codePointAt(indexCU) ?? 0;
+    const prop = getGraphemeBreakPropertyId(codePoint);
+    const incb = getIncbPropertyId(codePoint);
+    return (
+      prop !== GraphemeBreakPropertyId.Regional_Indicator &&
+      prop !== GraphemeBreakPropertyId.ZWJ &&
+      prop !== GraphemeBreakPropertyId.Extend &&
+      incb !== IncbPropertyId.Linker &&
+      incb !== IncbPropertyId.Extend
+    );
+  },
+  resolve: resolveGraphemeBoundary,
+};
+
+function wordRules(options: WordSegmentOptions): LocalRules {
+  const tailorings = new Set(normalizeWordTailorings(options.tailorings));
+  return {
+    segment: (text) => segmentWordsUAX29(text, options),
+    isRestart: (text, indexCU) => {
+      const codePoint = text.codePointAt(indexCU) ?? 0;
+      const prop = tailoredWordBreakPropertyId(codePoint, tailorings);
+      return (
+        prop !== WordBreakPropertyId.Extend &&
+        prop !== WordBreakPropertyId.Format &&
+        prop !== WordBreakPropertyId.ZWJ &&
+        prop !== WordBreakPropertyId.Regional_Indicator &&
+        prop !== WordBreakPropertyId.MidLetter &&
+        prop !== WordBreakPropertyId.MidNum &&
+        prop !== WordBreakPropertyId.MidNumLet &&
+        prop !== WordBreakPropertyId.Single_Quote &&
+        prop !== WordBreakPropertyId.Double_Quote
+      );
+    },
+    resolve: resolveWordBoundary,
+  };
+}
+
+function isParagraphSeparatorBefore(text: string, indexCU: number): boolean {
+  if (indexCU === 0) return true;
+  const prop = getSentenceBreakPropertyId(
+    text.codePointAt(codePointStartBefore(text, indexCU)) ?? 0,
+  );
+  if (prop === SentenceBreakPropertyId.CR) return text.charCodeAt(indexCU) !== 0x0a;
+  return prop === SentenceBreakPropertyId.LF || prop === SentenceBreakPropertyId.Sep;
+}
+
+function sentenceRules(options: SentenceSegmentOptions): LocalRules {
+  // Suppressions read back to the start of the sentence, so only a paragraph
+  // separator (an unconditional SB4 break) is a safe restart point.
+  const suppressed = normalizeSentenceSuppressions(options.suppressions).length > 0;
+  return {
+    segment: (text) => segmentSentencesUAX29(text, options),
+    isRestart: (text, indexCU) => {
+      if (suppressed) return isParagraphSeparatorBefore(text, indexCU);
+      const prop = getSentenceBreakPropertyId(text.codePointAt(indexCU) ?? 0);
+      return (
+        prop !== SentenceBreakPropertyId.Extend &&
+        prop !== SentenceBreakPropertyId.Format &&
+        prop !== SentenceBreakPropertyId.Close &&
+        prop !== SentenceBreakPropertyId.Sp &&
+        prop !== SentenceBreakPropertyId.ATerm &&
+        prop !== SentenceBreakPropertyId.STerm
+      );
+    },
+    resolve: resolveSentenceBoundary,
+  };
+}
+
+function rulesFor(kind: BoundaryKind, options: BoundaryOptions): LocalRules {
+  if (kind === "word") return wordRules(options);
+  if (kind === "sentence") return sentenceRules(options);
+  return GRAPHEME_RULES;
+}
+
+function clampPosition(text: string, posCU: number): number {
+  return Math.min(Math.max(Math.floor(posCU), 0), text.length);
+}
+
+function codePointStartBefore(text: string, posCU: number): number {
+  const low = text.charCodeAt(posCU - 1);
+  if (posCU >= 2 && low >= 0xdc00 && low <= 0xdfff) {
+    const high = text.charCodeAt(posCU - 2);
+    if (high >= 0xd800 && high <= 0xdbff) return posCU - 2;
+  }
+  return posCU - 1;
+}
+
+function isInsideSurrogatePair(text: string, posCU: number): boolean {
+  if (posCU <= 0 || posCU >= text.length) return false;
+  const high = text.charCodeAt(posCU - 1);
+  const low = text.charCodeAt(posCU);
+  return high >= 0xd800 && high <= 0xdbff && low >= 0xdc00 && low <= 0xdfff;
+}
+
+/**
+ * Nearest restart point strictly before `posCU`, or 0.
+ */
+function findRestart(text: string, posCU: number, rules: LocalRules): number {
+  let index = posCU;
+  while (index > 0) {
+    index = codePointStartBefore(text, index);
+    if (rules.isRestart(text, index)) return index;
+  }
+  return 0;
+}
+
+/**
+ * Segment a window starting at `startCU`, widened until every decision up to
+ * `targetCU` is independent of the text that follows the window.
+ */
+function windowBoundaries(
+  text: string,
+  startCU: number,
+  targetCU: number,
+  rules: LocalRules,
+): number[] {
+  let endCU = Math.min(text.length, targetCU + INITIAL_WINDOW_CU);
+  let windowText = text.slice(startCU, endCU);
+  while (endCU < text.length && !rules.resolve(windowText, targetCU - startCU)) {
+    endCU = Math.min(text.length, endCU + (endCU - startCU));
+    windowText = text.slice(startCU, endCU);
+  }
+  const boundaries: number[] = [];
+  for (const span of rules.segment(windowText)) {
+    const boundary = startCU + span.endCU;
+    if (boundary > targetCU && endCU < text.length) {
+      if (span.endCU >= windowText.length || !rules.resolve(windowText, span.endCU)) break;
+    }
+    boundaries.push(boundary);
+  }
+  return boundaries;
+}
+
+/**
+ * Whether `posCU` is a grapheme, word or sentence boundary.
+ * Text start and end are always boundaries; only local context is examined.
+ * `options` are the segmenter options for `kind` and must match the full segmentation being queried.
+ * Units: UTF-16 code units.
+ */
+export function isBoundary(
+  text: string,
+  posCU: number,
+  kind: BoundaryKind = "grapheme",
+  options: BoundaryOptions = {},
+): boolean {
+  if (posCU < 0 || posCU > text.length || !Number.isInteger(posCU)) return false;
+  if (posCU === 0 || posCU === text.length) return true;
+  if (isInsideSurrogatePair(text, posCU)) return false;
+  const rules = rulesFor(kind, options);
+  const startCU = findRestart(text, posCU, rules);
+  return windowBoundaries(text, startCU, posCU, rules).includes(posCU);
+}
+
+/**
+ * Largest boundary strictly before `posCU`, or -1 when there is none.
+ * Units: UTF-16 code units.
+ */
+export function precedingBoundary(
+  text: string,
+  posCU: number,
+  kind: BoundaryKind = "grapheme",
+  options: BoundaryOptions = {},
+): number {
+  const targetCU = clampPosition(text, posCU);
+  if (targetCU === 0) return -1;
+  const rules = rulesFor(kind, options);
+  let startCU = targetCU;
+  while (startCU > 0) {
+    startCU = findRestart(text, startCU, rules);
+    let found = -1;
+    for (const boundary of windowBoundaries(text, startCU, targetCU, rules)) {
+      if (boundary < targetCU) found = boundary;
+    }
+    if (found >= 0) return found;
+  }
+  return 0;
+}
+
+/**
+ * Smallest boundary strictly after `posCU`, or -1 when there is none.
+ * Units: UTF-16 code units.
+ */
+export function followingBoundary(
+  text: string,
+  posCU: number,
+  kind: BoundaryKind = "grapheme",
+  options: BoundaryOptions = {},
+): number {
+  const targetCU = posCU < 0 ? -1 : clampPosition(text, posCU);
+  if (targetCU >= text.length) return -1;
+  if (targetCU < 0) return 0;
+  const rules = rulesFor(kind, options);
+  const startCU = findRestart(text, targetCU + 1, rules);
+  let searchCU = targetCU;
+  while (true) {
+    const boundaries = windowBoundaries(text, startCU, searchCU, rules);
+    for (const boundary of boundaries) {
+      if (boundary > targetCU) return boundary;
+    }
+    const last = boundaries[boundaries.length - 1] ?? startCU;
+    if (last >= text.length) return text.length;
+    searchCU = Math.min(
+      text.length,
+      Math.max(searchCU, last) + Math.max(INITIAL_WINDOW_CU, searchCU - startCU),
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { ByteSegmentIterable, ByteSpan, SegmentIterable, TextInput } from "../core/types.ts";
+import { type GraphemeSegmentOptions, segmentGraphemes } from "./grapheme.ts";
+import { createUtf8OffsetCursor, utf8BaseOffset } from "./internal.ts";
+import { type SentenceSegmentOptions, segmentSentencesUAX29 } from "./sentence.ts";
+import { type WordSegmentOptions, segmentWordsUAX29 } from "./word.ts";
+
+function toByteSegments(
+  input: TextInput,
+  segment: (text: string) => SegmentIterable,
+): ByteSegmentIterable {
+  const { text, byteLength } = normalizeInput(input);
+  const spans = segment(text);
+  const base = spans.provenance;
+  const provenance = createProvenance(
+    base.algorithm,
+    { configHash: base.configHash, units: "utf8-byte" },
+    { ...base.units, byte: "utf8-byte" },
+  );
+  const baseB = utf8BaseOffset(text, byteLength);
+  return {
+    provenance,
+    *[Symbol.iterator](): Iterator<ByteSpan> {
+      const cursor = createUtf8OffsetCursor(text, baseB);
+      for (const span of spans) {
+        yield { startB: cursor.toByte(span.startCU), endB: cursor.toByte(span.endCU) };
+      }
+    },
+  };
+}
+
+/**
+ * Segment grapheme clusters using UAX #29, yielding UTF-8 byte spans.
+ * Offsets index the original buffer when given a Uint8Array (including a leading BOM).
+ * Units: bytes (UTF-8).
+ */
+export function segmentGraphemesBytes(
+  input: TextInput,
+  options: GraphemeSegmentOptions = {},
+): ByteSegmentIterable {
+  return toByteSegments(input, (text) => segmentGraphemes(text, options));
+}
+
+/**
+ * Segment word boundaries using UAX #29, yielding UTF-8 byte spans.
+ * Units: bytes (UTF-8).
+ */
+export function segmentWordsUAX29Bytes(
+  input: TextInput,
+  options: WordSegmentOptions = {},
+): ByteSegmentIterable {
+  return toByteSegments(input, (text) => segmentWordsUAX29(text, options));
+}
+
+/**
+ * Segment sentences using UAX #29, yielding UTF-8 byte spans.
+ * Units: bytes (UTF-8).
+ */
+export function segmentSentencesUAX29Bytes(
+  input: TextInput,
+  options: SentenceSegmentOptions = {},
+): ByteSegmentIterable {
+  return toByteSegments(input, (text) => segmentSentencesUAX29(text, options));
+}
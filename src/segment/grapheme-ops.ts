@@ -0,0 +1,139 @@
+import { iterateCodePoints } from "../core/codepoint.ts";
+import { normalizeInput } from "../core/input.ts";
+import type { TextInput } from "../core/types.ts";
+import { BidiClass, getBidiClassId } from "../unicode/bidi.ts";
+import { segmentGraphemes } from "./grapheme.ts";
+import { segmentWordsWithStatus } from "./word-status.ts";
+
+/**
+ * TruncateGraphemesOptions defines an exported structural contract.
+ * - `ellipsis`: appended when text is cut; its graphemes count toward the limit. Default `""`.
+ * - `boundary`: `word` backs the cut off to the end of the last whole UAX #29 word segment
+ *   that fits, dropping trailing whitespace; falls back to `grapheme` when none fits.
+ */
+export interface TruncateGraphemesOptions {
+  ellipsis?: string;
+  boundary?: "grapheme" | "word";
+}
+
+const PDF = "\u202c";
+const PDI = "\u2069";
+
+function graphemeStarts(text: string): number[] {
+  const starts: number[] = [];
+  for (const span of segmentGraphemes(text)) starts.push(span.startCU);
+  return starts;
+}
+
+function resolveIndex(index: number, length: number): number {
+  const whole = Math.trunc(index);
+  if (whole < 0) return Math.max(0, length + whole);
+  return Math.min(whole, length);
+}
+
+/**
+ * Closing controls for explicit embeddings and isolates left open at the end of `text`,
+ * innermost first. Paragraph separators close everything, as in UAX #9 BD2.
+ */
+function unclosedBidiTerminators(text: string): string {
+  const stack: string[] = [];
+  for (const cp of iterateCodePoints(text)) {
+    switch (getBidiClassId(cp.codePoint)) {
+      case BidiClass.LRE:
+      case BidiClass.RLE:
+      case BidiClass.LRO:
+      case BidiClass.RLO:
+        stack.push(PDF);
+        break;
+      case BidiClass.LRI:
+      case BidiClass.RLI:
+      case BidiClass.FSI:
+        stack.push(PDI);
+        break;
+      case BidiClass.PDF:
+        if (stack[stack.length - 1] === PDF) stack.pop();
+        break;
+      case BidiClass.PDI:
+        if (stack.includes(PDI)) {
+          stack.length = stack.lastIndexOf(PDI);
+        }
+        break;
+      case BidiClass.B:
+        stack.length = 0;
+        break;
+    }
+  }
+  return stack.reverse().join("");
+}
+
+/**
+ * Number of UAX #29 extended grapheme clusters in the text.
+ * Units: UAX #29 graphemes.
+ */
+export function graphemeLength(input: TextInput): number {
+  const { text } = normalizeInput(input);
+  let count = 0;
+  for (const _span of segmentGraphemes(text)) count += 1;
+  return count;
+}
+
+/**
+ * Slice by grapheme index with `Array.prototype.slice` semantics (negative indices count
+ * from the end). Clusters are never split.
+ * Units: UAX #29 graphemes.
+ */
+export function sliceGraphemes(input: TextInput, start: number, end?: number): string {
+  const { text } = normalizeInput(input);
+  const starts = graphemeStarts(text);
+  const from = resolveIndex(start, starts.length);
+  const to = end === undefined ? starts.length : resolveIndex(end, starts.length);
+  if (to <= from) return "";
+  return text.slice(starts[from] ?? text.length, starts[to] ?? text.length);
+}
+
+/**
+ * Reverse the order of grapheme clusters; each cluster keeps its code point order.
+ * Units: UAX #29 graphemes.
+ */
+export function reverseGraphemes(input: TextInput): string {
+  const { text } = normalizeInput(input);
+  const parts: string[] = [];
+  for (const span of segmentGraphemes(text)) parts.push(text.slice(span.startCU, span.endCU));
+  return parts.reverse().join("");
+}
+
+/**
+ * Truncate to at most `maxGraphemes` clusters, ellipsis included. Text that already fits is
+ * returned unchanged. Embeddings and isolates opened in the kept prefix are closed (PDF/PDI)
+ * before the ellipsis; these controls do not count toward the limit.
+ * Non-integer or negative limits throw a RangeError.
+ * Units: UAX #29 graphemes.
+ */
+export function truncateGraphemes(
+  input: TextInput,
+  maxGraphemes: number,
+  options: TruncateGraphemesOptions = {},
+): string {
+  if (!Number.isInteger(maxGraphemes) || maxGraphemes < 0) {
+    throw new RangeError("maxGraphemes must be a non-negative integer");
+  }
+  const { text } = normalizeInput(input);
+  const starts = graphemeStarts(text);
+  if (starts.length <= maxGraphemes) return text;
+
+  const ellipsis = options.ellipsis ?? "";
+  const ellipsisLength = graphemeLength(ellipsis);
+  if (ellipsisLength >= maxGraphemes) return sliceGraphemes(ellipsis, 0, maxGraphemes);
+
+  let cutCU = starts[maxGraphemes - ellipsisLength] ?? text.length;
+  if (options.boundary === "word") {
+    let wordEndCU = 0;
+    for (const segment of segmentWordsWithStatus(text)) {
+      if (segment.endCU > cutCU) break;
+      if (segment.status !== "whitespace") wordEndCU = segment.endCU;
+    }
+    if (wordEndCU > 0) cutCU = wordEndCU;
+  }
+  const kept = text.slice(0, cutCU);
+  return kept + unclosedBidiTerminators(kept) + ellipsis;
+}
@@ -1,10 +1,21 @@
 import { iterateCodePoints } from "../core/codepoint.ts";
 import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
-import type { SegmentIterable, Span, TextInput } from "../core/types.ts";
+import type {
+  BreakTrace,
+  BreakTraceIterable,
+  Provenance,
+  SegmentIterable,
+  Span,
+  TextInput,
+} from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { isExtendedPictographic } from "../unicode/emoji.ts";
-import { GraphemeBreakPropertyId, getGraphemeBreakPropertyId } from "../unicode/grapheme.ts";
+import {
+  GraphemeBreakPropertyId,
+  getGraphemeBreakProperty,
+  getGraphemeBreakPropertyId,
+} from "../unicode/grapheme.ts";
 import { IncbPropertyId, getIncbPropertyId } from "../unicode/incb.ts";
 import { createSegmentIterable } from "./segment-iterable.ts";
 
@@ -18,16 +29,30 @@ export interface GraphemeSegmentOptions {
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const UAX29_SPEC = "https://unicode.org/reports/tr29/";
 
-/**
- * Segment grapheme clusters using UAX #29.
- * Units: bytes (UTF-8).
- * Units: UTF-16 code units.
- */
-export function segmentGraphemes(
-  input: TextInput,
-  options: GraphemeSegmentOptions = {},
-): SegmentIterable {
-  const { text } = normalizeInput(input);
+/** Deciding grapheme rules; only `traceGraphemeBreaks` turns them into rule id strings. */
+enum GraphemeRule {
+  GB3 = 0,
+  GB4 = 1,
+  GB5 = 2,
+  GB6 = 3,
+  GB7 = 4,
+  GB8 = 5,
+  GB9 = 6,
+  GB9a = 7,
+  GB9b = 8,
+  GB9c = 9,
+  GB11 = 10,
+  GB12 = 11,
+  GB13 = 12,
+  GB999 = 13,
+}
+
+/** Rules whose decision is a break; every other rule forbids one. */
+function isGraphemeBreakRule(rule: GraphemeRule): boolean {
+  return rule === GraphemeRule.GB999 || rule === GraphemeRule.GB4 || rule === GraphemeRule.GB5;
+}
+
+function graphemeProvenance(options: GraphemeSegmentOptions): Provenance {
   const normalizedOptions = {
     algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
   };
@@ -37,149 +62,211 @@ export function segmentGraphemes(
     revisionOrDate: normalizedOptions.algorithmRevision,
     implementationId: IMPLEMENTATION_ID,
   };
-  const provenance = createProvenance(algorithm, normalizedOptions, {
+  return createProvenance(algorithm, normalizedOptions, {
     text: "utf16-code-unit",
     token: "uax29-grapheme",
     grapheme: "uax29-grapheme",
   });
+}
 
-  const generate = function* (): Iterable<Span> {
-    if (text.length === 0) return;
+/**
+ * Segment grapheme clusters using UAX #29.
+ * Units: bytes (UTF-8).
+ * Units: UTF-16 code units.
+ */
+export function segmentGraphemes(
+  input: TextInput,
+  options: GraphemeSegmentOptions = {},
+): SegmentIterable {
+  const { text } = normalizeInput(input);
+  const provenance = graphemeProvenance(options);
 
+  const generate = function* (): Iterable<Span> {
+    const decide = createGraphemeBreakDecider();
     let startCU = 0;
-    let first = true;
-    let prevProp = 0;
-    const state = {
-      riCount: 0,
-      emojiSeq: false,
-      prevWasZWJAfterEP: false,
-      incbConsonant: false,
-      incbAfterLinker: false,
-    };
-
-    const clearClusterState = () => {
-      state.riCount = 0;
-      state.emojiSeq = false;
-      state.prevWasZWJAfterEP = false;
-      state.incbConsonant = false;
-      state.incbAfterLinker = false;
-    };
-
-    const updateState = (prop: number, extendedPictographic: boolean, incb: number) => {
-      if (prop === GraphemeBreakPropertyId.Regional_Indicator) {
-        state.riCount += 1;
-      } else {
-        state.riCount = 0;
+    for (const cp of iterateCodePoints(text)) {
+      const rule = decide(cp.codePoint);
+      if (rule !== undefined && isGraphemeBreakRule(rule)) {
+        yield { startCU, endCU: cp.indexCU };
+        startCU = cp.indexCU;
       }
+    }
+    if (text.length > 0) {
+      yield { startCU, endCU: text.length };
+    }
+  };
 
-      if (prop === GraphemeBreakPropertyId.ZWJ) {
-        state.prevWasZWJAfterEP = state.emojiSeq;
-        state.emojiSeq = false;
-      } else if (prop === GraphemeBreakPropertyId.Extend) {
-        state.prevWasZWJAfterEP = false;
-      } else if (extendedPictographic) {
-        state.emojiSeq = true;
-        state.prevWasZWJAfterEP = false;
-      } else {
-        state.emojiSeq = false;
-        state.prevWasZWJAfterEP = false;
-      }
+  return createSegmentIterable(generate, provenance);
+}
 
-      if (incb === IncbPropertyId.Consonant) {
-        state.incbConsonant = true;
-        state.incbAfterLinker = false;
-      } else if (incb === IncbPropertyId.Linker) {
-        state.incbAfterLinker = state.incbConsonant || state.incbAfterLinker;
-        state.incbConsonant = false;
-      } else if (incb !== IncbPropertyId.Extend) {
-        state.incbConsonant = false;
-        state.incbAfterLinker = false;
-      }
-    };
-
-    const isControl = (prop: number) =>
-      prop === GraphemeBreakPropertyId.Control ||
-      prop === GraphemeBreakPropertyId.CR ||
-      prop === GraphemeBreakPropertyId.LF;
-
-    const shouldBreak = (prev: number, curr: number, currIsEP: boolean, currIncb: number) => {
-      if (prev === GraphemeBreakPropertyId.CR && curr === GraphemeBreakPropertyId.LF) return false;
-      if (isControl(prev)) return true;
-      if (isControl(curr)) return true;
-
-      if (
-        prev === GraphemeBreakPropertyId.L &&
-        (curr === GraphemeBreakPropertyId.L ||
-          curr === GraphemeBreakPropertyId.V ||
-          curr === GraphemeBreakPropertyId.LV ||
-          curr === GraphemeBreakPropertyId.LVT)
-      ) {
-        return false;
+/**
+ * Trace every grapheme break decision with the UAX #29 rule that made it.
+ * Positions strictly between code points are reported; text start and end are not.
+ * Units: UTF-16 code units.
+ */
+export function traceGraphemeBreaks(
+  input: TextInput,
+  options: GraphemeSegmentOptions = {},
+): BreakTraceIterable {
+  const { text } = normalizeInput(input);
+  const generate = function* (): Iterable<BreakTrace> {
+    const decide = createGraphemeBreakDecider();
+    let propertyBefore = "";
+    for (const cp of iterateCodePoints(text)) {
+      const propertyAfter = getGraphemeBreakProperty(cp.codePoint);
+      const rule = decide(cp.codePoint);
+      if (rule !== undefined) {
+        yield {
+          posCU: cp.indexCU,
+          isBreak: isGraphemeBreakRule(rule),
+          ruleId: GraphemeRule[rule],
+          propertyBefore,
+          propertyAfter,
+        };
       }
+      propertyBefore = propertyAfter;
+    }
+  };
+  return {
+    provenance: graphemeProvenance(options),
+    [Symbol.iterator]: () => generate()[Symbol.iterator](),
+  };
+}
 
-      if (
-        (prev === GraphemeBreakPropertyId.LV || prev === GraphemeBreakPropertyId.V) &&
-        (curr === GraphemeBreakPropertyId.V || curr === GraphemeBreakPropertyId.T)
-      ) {
-        return false;
-      }
+/**
+ * Feed code points in order; returns the rule deciding the position before
+ * each code point, or undefined for the first one.
+ */
+function createGraphemeBreakDecider(): (codePoint: number) => GraphemeRule | undefined {
+  let first = true;
+  let prevProp = 0;
+  let onlyRegionalIndicators = true;
+  const state = {
+    riCount: 0,
+    emojiSeq: false,
+    prevWasZWJAfterEP: false,
+    incbConsonant: false,
+    incbAfterLinker: false,
+  };
 
-      if (
-        (prev === GraphemeBreakPropertyId.LVT || prev === GraphemeBreakPropertyId.T) &&
-        curr === GraphemeBreakPropertyId.T
-      ) {
-        return false;
-      }
+  const clearClusterState = () => {
+    state.riCount = 0;
+    state.emojiSeq = false;
+    state.prevWasZWJAfterEP = false;
+    state.incbConsonant = false;
+    state.incbAfterLinker = false;
+  };
 
-      if (curr === GraphemeBreakPropertyId.Extend) return false;
-      if (curr === GraphemeBreakPropertyId.ZWJ) return false;
-      if (curr === GraphemeBreakPropertyId.SpacingMark) return false;
-      if (prev === GraphemeBreakPropertyId.Prepend) return false;
+  const updateState = (prop: number, extendedPictographic: boolean, incb: number) => {
+    if (prop === GraphemeBreakPropertyId.Regional_Indicator) {
+      state.riCount += 1;
+    } else {
+      state.riCount = 0;
+      onlyRegionalIndicators = false;
+    }
 
-      if (currIncb === IncbPropertyId.Consonant && state.incbAfterLinker) {
-        return false;
-      }
+    if (prop === GraphemeBreakPropertyId.ZWJ) {
+      state.prevWasZWJAfterEP = state.emojiSeq;
+      state.emojiSeq = false;
+    } else if (prop === GraphemeBreakPropertyId.Extend) {
+      state.prevWasZWJAfterEP = false;
+    } else if (extendedPictographic) {
+      state.emojiSeq = true;
+      state.prevWasZWJAfterEP = false;
+    } else {
+      state.emojiSeq = false;
+      state.prevWasZWJAfterEP = false;
+    }
 
-      if (prev === GraphemeBreakPropertyId.ZWJ && currIsEP && state.prevWasZWJAfterEP) {
-        return false;
-      }
+    if (incb === IncbPropertyId.Consonant) {
+      state.incbConsonant = true;
+      state.incbAfterLinker = false;
+    } else if (incb === IncbPropertyId.Linker) {
+      state.incbAfterLinker = state.incbConsonant || state.incbAfterLinker;
+      state.incbConsonant = false;
+    } else if (incb !== IncbPropertyId.Extend) {
+      state.incbConsonant = false;
+      state.incbAfterLinker = false;
+    }
+  };
 
-      if (
-        prev === GraphemeBreakPropertyId.Regional_Indicator &&
-        curr === GraphemeBreakPropertyId.Regional_Indicator
-      ) {
-        return state.riCount % 2 === 0;
-      }
+  const isControl = (prop: number) =>
+    prop === GraphemeBreakPropertyId.Control ||
+    prop === GraphemeBreakPropertyId.CR ||
+    prop === GraphemeBreakPropertyId.LF;
 
-      return true;
-    };
+  const decideRule = (
+    prev: number,
+    curr: number,
+    currIsEP: boolean,
+    currIncb: number,
+  ): GraphemeRule => {
+    if (prev === GraphemeBreakPropertyId.CR && curr === GraphemeBreakPropertyId.LF)
+      return GraphemeRule.GB3;
+    if (isControl(prev)) return GraphemeRule.GB4;
+    if (isControl(curr)) return GraphemeRule.GB5;
 
-    for (const cp of iterateCodePoints(text)) {
-      const prop = getGraphemeBreakPropertyId(cp.codePoint);
-      const isEP = isExtendedPictographic(cp.codePoint);
-      const incb = getIncbPropertyId(cp.codePoint);
-      if (first) {
-        first = false;
-        prevProp = prop;
-        updateState(prop, isEP, incb);
-        continue;
-      }
+    if (
+      prev === GraphemeBreakPropertyId.L &&
+      (curr === GraphemeBreakPropertyId.L ||
+        curr === GraphemeBreakPropertyId.V ||
+        curr === GraphemeBreakPropertyId.LV ||
+        curr === GraphemeBreakPropertyId.LVT)
+    ) {
+      return GraphemeRule.GB6;
+    }
 
-      const breakHere = shouldBreak(prevProp, prop, isEP, incb);
-      if (breakHere) {
-        yield { startCU, endCU: cp.indexCU };
-        startCU = cp.indexCU;
-        clearClusterState();
-      }
+    if (
+      (prev === GraphemeBreakPropertyId.LV || prev === GraphemeBreakPropertyId.V) &&
+      (curr === GraphemeBreakPropertyId.V || curr === GraphemeBreakPropertyId.T)
+    ) {
+      return GraphemeRule.GB7;
+    }
 
-      updateState(prop, isEP, incb);
-      prevProp = prop;
+    if (
+      (prev === GraphemeBreakPropertyId.LVT || prev === GraphemeBreakPropertyId.T) &&
+      curr === GraphemeBreakPropertyId.T
+    ) {
+      return GraphemeRule.GB8;
     }
 
-    if (!first) {
-      yield { startCU, endCU: text.length };
+    if (curr === GraphemeBreakPropertyId.Extend) return GraphemeRule.GB9;
+    if (curr === GraphemeBreakPropertyId.ZWJ) return GraphemeRule.GB9;
+    if (curr === GraphemeBreakPropertyId.SpacingMark) return GraphemeRule.GB9a;
+    if (prev === GraphemeBreakPropertyId.Prepend) return GraphemeRule.GB9b;
+
+    if (currIncb === IncbPropertyId.Consonant && state.incbAfterLinker) {
+      return GraphemeRule.GB9c;
     }
+
+    if (prev === GraphemeBreakPropertyId.ZWJ && currIsEP && state.prevWasZWJAfterEP) {
+      return GraphemeRule.GB11;
+    }
+
+    if (
+      prev === GraphemeBreakPropertyId.Regional_Indicator &&
+      curr === GraphemeBreakPropertyId.Regional_Indicator &&
+      state.riCount % 2 === 1
+    ) {
+      return onlyRegionalIndicators ? GraphemeRule.GB12 : GraphemeRule.GB13;
+    }
+
+    return GraphemeRule.GB999;
   };
 
-  return createSegmentIterable(generate, provenance);
+  return (codePoint) => {
+    const prop = getGraphemeBreakPropertyId(codePoint);
+    const isEP = isExtendedPictographic(codePoint);
+    const incb = getIncbPropertyId(codePoint);
+    let rule: GraphemeRule | undefined;
+    if (first) {
+      first = false;
+    } else {
+      rule = decideRule(prevProp, prop, isEP, incb);
+      if (isGraphemeBreakRule(rule)) clearClusterState();
+    }
+    updateState(prop, isEP, incb);
+    prevProp = prop;
+    return rule;
+  };
 }
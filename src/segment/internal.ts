@@ -1,4 +1,32 @@
 import { iterateCodePoints } from "../core/codepoint.ts";
+import { SentenceBreakPropertyId, getSentenceBreakPropertyId } from "../unicode/sentence.ts";
+import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
+import type { WordTailoring } from "./word.ts";
+
+export const HYPHEN_CODEPOINTS = new Set([0x002d, 0x2010, 0x2011, 0xfe63, 0xff0d]);
+export const APOSTROPHE_VARIANT_CODEPOINTS = new Set([0x0060, 0x00b4, 0x201b, 0x2032]);
+export const PREFIX_CODEPOINTS = new Set([0x0023, 0x0040, 0xff03, 0xff20]);
+export const GROUP_SEPARATOR_CODEPOINTS = new Set([0x00a0, 0x2007, 0x202f]);
+
+/**
+ * Word break property of `codePoint` after the declared `WordTailoring`s.
+ */
+export function tailoredWordBreakPropertyId(
+  codePoint: number,
+  tailorings: ReadonlySet<WordTailoring>,
+): number {
+  if (tailorings.size === 0) return getWordBreakPropertyId(codePoint);
+  if (tailorings.has("hyphen-joins-letters") && HYPHEN_CODEPOINTS.has(codePoint)) {
+    return WordBreakPropertyId.MidLetter;
+  }
+  if (tailorings.has("apostrophe-variants") && APOSTROPHE_VARIANT_CODEPOINTS.has(codePoint)) {
+    return WordBreakPropertyId.MidNumLet;
+  }
+  if (tailorings.has("decimal-comma-numbers") && GROUP_SEPARATOR_CODEPOINTS.has(codePoint)) {
+    return WordBreakPropertyId.MidNum;
+  }
+  return getWordBreakPropertyId(codePoint);
+}
 
 export interface CodePointArray {
   codePoints: number[];
@@ -14,3 +42,106 @@ export function collectCodePoints(text: string): CodePointArray {
   }
   return { codePoints, codeUnitStarts };
 }
+
+function utf8Length(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+export interface Utf8OffsetCursor {
+  toByte(offsetCU: number): number;
+}
+
+/**
+ * Map ascending UTF-16 offsets to UTF-8 byte offsets without re-encoding.
+ * Lone surrogates count as U+FFFD (3 bytes), matching TextEncoder.
+ */
+export function createUtf8OffsetCursor(text: string, baseB = 0): Utf8OffsetCursor {
+  let cu = 0;
+  let byte = 0;
+  return {
+    toByte(offsetCU: number): number {
+      if (offsetCU < cu) {
+        cu = 0;
+        byte = 0;
+      }
+      while (cu < offsetCU && cu < text.length) {
+        const codePoint = text.codePointAt(cu) ?? 0;
+        byte += utf8Length(codePoint);
+        cu += codePoint > 0xffff ? 2 : 1;
+      }
+      return baseB + byte;
+    },
+  };
+}
+
+/**
+ * Byte offset of the decoded text within the original UTF-8 buffer.
+ * Non-zero only when the decoder stripped a leading byte order mark.
+ */
+export function utf8BaseOffset(text: string, byteLength: number | undefined): number {
+  if (byteLength === undefined) return 0;
+  return byteLength - createUtf8OffsetCursor(text).toByte(text.length);
+}
+
+/**
+ * Decides whether a boundary at `boundaryCU` in `text` can no longer change
+ * when more text is appended after `text`.
+ */
+export type BoundaryResolver = (text: string, boundaryCU: number) => boolean;
+
+/**
+ * Count resolving code points at or after `startCU`, stopping at `limit`.
+ */
+function countResolvingCodePoints(
+  text: string,
+  startCU: number,
+  isResolving: (codePoint: number) => boolean,
+  limit: number,
+): number {
+  let found = 0;
+  for (let codeUnitIndex = startCU; codeUnitIndex < text.length && found < limit; ) {
+    const codePoint = text.codePointAt(codeUnitIndex) ?? 0;
+    if (isResolving(codePoint)) found += 1;
+    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
+  }
+  return found;
+}
+
+// GB rules only look at left context and the next code point.
+export const resolveGraphemeBoundary: BoundaryResolver = () => true;
+
+// WB6/WB7/WB7b/WB12 look at the second non-(Extend|Format|ZWJ) code point to the right.
+export const resolveWordBoundary: BoundaryResolver = (text, boundaryCU) =>
+  countResolvingCodePoints(
+    text,
+    boundaryCU,
+    (codePoint) => {
+      const prop = getWordBreakPropertyId(codePoint);
+      return (
+        prop !== WordBreakPropertyId.Extend &&
+        prop !== WordBreakPropertyId.Format &&
+        prop !== WordBreakPropertyId.ZWJ
+      );
+    },
+    2,
+  ) >= 2;
+
+// SB8-SB11 scan right across Close, Sp, Extend and Format.
+export const resolveSentenceBoundary: BoundaryResolver = (text, boundaryCU) =>
+  countResolvingCodePoints(
+    text,
+    boundaryCU,
+    (codePoint) => {
+      const prop = getSentenceBreakPropertyId(codePoint);
+      return (
+        prop !== SentenceBreakPropertyId.Extend &&
+        prop !== SentenceBreakPropertyId.Format &&
+        prop !== SentenceBreakPropertyId.Close &&
+        prop !== SentenceBreakPropertyId.Sp
+      );
+    },
+    1,
+  ) >= 1;
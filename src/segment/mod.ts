@@ -1,4 +1,10 @@
 export * from "./grapheme.ts";
+export * from "./grapheme-ops.ts";
 export * from "./word.ts";
 export * from "./sentence.ts";
+export * from "./paragraph.ts";
 export * from "./segment-iterable.ts";
+export * from "./bytes.ts";
+export * from "./stream.ts";
+export * from "./boundary.ts";
+export * from "./word-status.ts";
@@ -0,0 +1,118 @@
+import { normalizeInput } from "../core/input.ts";
+import { createProvenance } from "../core/provenance.ts";
+import type { SegmentIterable, Span, TextInput } from "../core/types.ts";
+import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { BidiClass, getBidiClassId } from "../unicode/bidi.ts";
+import { createSegmentIterable } from "./segment-iterable.ts";
+
+/**
+ * ParagraphSeparators selects where paragraphs end.
+ * - `bidi`: after every Bidi_Class=B separator (CR, LF, CRLF, NEL, PS, FS/GS/RS), as in UAX #9 BD2.
+ * - `blank-lines`: only before a non-blank line that follows one or more blank lines,
+ *   and after PS (U+2029). Lines holding only WS/S-class characters are blank.
+ */
+export type ParagraphSeparators = "bidi" | "blank-lines";
+
+/**
+ * ParagraphSegmentOptions defines an exported structural contract.
+ */
+export interface ParagraphSegmentOptions {
+  algorithmRevision?: string;
+  separators?: ParagraphSeparators;
+}
+
+const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
+const UAX9_SPEC = "https://unicode.org/reports/tr9/";
+const PARAGRAPH_SEPARATOR = 0x2029;
+
+interface Line {
+  startCU: number;
+  endCU: number;
+  blank: boolean;
+  /** The line ends with U+2029 PARAGRAPH SEPARATOR. */
+  hardEnd: boolean;
+}
+
+function* iterateLines(text: string): Iterable<Line> {
+  let startCU = 0;
+  let blank = true;
+  let index = 0;
+  while (index < text.length) {
+    const codePoint = text.codePointAt(index) ?? 0;
+    const size = codePoint > 0xffff ? 2 : 1;
+    const bidiClass = getBidiClassId(codePoint);
+    if (bidiClass === BidiClass.B) {
+      let endCU = index + size;
+      if (codePoint === 0x000d && text.charCodeAt(endCU) === 0x000a) endCU += 1;
+      yield { startCU, endCU, blank, hardEnd: codePoint === PARAGRAPH_SEPARATOR };
+      startCU = endCU;
+      blank = true;
+      index = endCU;
+      continue;
+    }
+    if (bidiClass !== BidiClass.WS && bidiClass !== BidiClass.S) blank = false;
+    index += size;
+  }
+  if (startCU < text.length) {
+    yield { startCU, endCU: text.length, blank, hardEnd: false };
+  }
+}
+
+/**
+ * Segment paragraphs at UAX #9 paragraph separators; each span keeps its trailing separator.
+ * Units: bytes (UTF-8).
+ * Units: UTF-16 code units.
+ */
+export function segmentParagraphs(
+  input: TextInput,
+  options: ParagraphSegmentOptions = {},
+): SegmentIterable {
+  const { text } = normalizeInput(input);
+  const normalizedOptions = {
+    algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
+    separators: options.separators ?? "bidi",
+  };
+  const algorithm = {
+    name: "UAX9.Paragraph",
+    spec: UAX9_SPEC,
+    revisionOrDate: normalizedOptions.algorithmRevision,
+    implementationId: IMPLEMENTATION_ID,
+  };
+  const provenance = createProvenance(algorithm, normalizedOptions, {
+    text: "utf16-code-unit",
+    token: "uax9-paragraph",
+    paragraph: "uax9-paragraph",
+  });
+  const byBlankLines = normalizedOptions.separators === "blank-lines";
+
+  const generate = function* (): Iterable<Span> {
+    if (!byBlankLines) {
+      for (const line of iterateLines(text)) {
+        yield { startCU: line.startCU, endCU: line.endCU };
+      }
+      return;
+    }
+    let startCU = 0;
+    let sawContent = false;
+    let afterBlank = false;
+    for (const line of iterateLines(text)) {
+      if (!line.blank && sawContent && afterBlank) {
+        yield { startCU, endCU: line.startCU };
+        startCU = line.startCU;
+      }
+      if (!line.blank) sawContent = true;
+      afterBlank = line.blank && sawContent;
+      if (line.hardEnd) {
+        yield { startCU, endCU: line.endCU };
+        startCU = line.endCU;
+        sawContent = false;
+        afterBlank = false;
+      }
+    }
+    if (startCU < text.length) {
+      yield { startCU, endCU: text.length };
+    }
+  };
+
+  return createSegmentIterable(generate, provenance);
+}
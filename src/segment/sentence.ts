@@ -1,7 +1,17 @@
+import { compareByCodePoint } from "../core/compare.ts";
+import { hashCanonicalSync } from "../core/hash.ts";
 import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
-import type { SegmentIterable, Span, TextInput } from "../core/types.ts";
+import type {
+  BreakTrace,
+  BreakTraceIterable,
+  Provenance,
+  SegmentIterable,
+  Span,
+  TextInput,
+} from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
+import { SB_PROPERTY_NAMES } from "../unicode/generated/sentence-break.ts";
 import { SentenceBreakPropertyId, getSentenceBreakPropertyId } from "../unicode/sentence.ts";
 import { collectCodePoints } from "./internal.ts";
 import { createSegmentIterable } from "./segment-iterable.ts";
@@ -11,11 +21,51 @@ import { createSegmentIterable } from "./segment-iterable.ts";
  */
 export interface SentenceSegmentOptions {
   algorithmRevision?: string;
+  /**
+   * Strings such as "Mr." or "e.g." after which a sentence break is suppressed
+   * (CLDR-style segmentation exceptions). Matching is exact and case-sensitive.
+   */
+  suppressions?: string[];
 }
 
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const UAX29_SPEC = "https://unicode.org/reports/tr29/";
 
+/** Deciding sentence rules; only `traceSentenceBreaks` turns them into rule id strings. */
+enum SentenceRule {
+  SB3 = 0,
+  SB4 = 1,
+  SB5 = 2,
+  SB6 = 3,
+  SB7 = 4,
+  SB8 = 5,
+  SB8a = 6,
+  SB9 = 7,
+  SB10 = 8,
+  SB11 = 9,
+  SB998 = 10,
+}
+
+/** Rules whose decision is a break; every other rule forbids one. */
+function isSentenceBreakRule(rule: SentenceRule): boolean {
+  return rule === SentenceRule.SB11 || rule === SentenceRule.SB4;
+}
+
+/**
+ * Sort and deduplicate suppressions so equal lists hash identically.
+ * Empty entries throw a RangeError.
+ */
+export function normalizeSentenceSuppressions(suppressions: readonly string[] = []): string[] {
+  const unique = new Set<string>();
+  for (const suppression of suppressions) {
+    if (suppression.length === 0) {
+      throw new RangeError("Sentence suppressions must be non-empty strings");
+    }
+    unique.add(suppression);
+  }
+  return [...unique].sort(compareByCodePoint);
+}
+
 /**
  * Segment sentences using UAX #29.
  * Units: bytes (UTF-8).
@@ -26,9 +76,87 @@ export function segmentSentencesUAX29(
   options: SentenceSegmentOptions = {},
 ): SegmentIterable {
   const { text } = normalizeInput(input);
-  const normalizedOptions = {
+  const { provenance, suppressions } = sentenceSetup(options);
+
+  const generate = function* (): Iterable<Span> {
+    if (text.length === 0) return;
+    const { count, codeUnitStarts, props, decide } = createSentenceBreakRules(text);
+    let startCU = 0;
+    for (let i = 1; i < count; i += 1) {
+      if (isSentenceBreakRule(decide(i))) {
+        const boundary = codeUnitStarts[i] ?? text.length;
+        if (
+          suppressions.length > 0 &&
+          isSuppressedBreak(text, startCU, i, props, codeUnitStarts, suppressions)
+        ) {
+          continue;
+        }
+        yield { startCU, endCU: boundary };
+        startCU = boundary;
+      }
+    }
+
+    yield { startCU, endCU: text.length };
+  };
+
+  return createSegmentIterable(generate, provenance);
+}
+
+/**
+ * Trace every sentence break decision with the UAX #29 rule that made it.
+ * Breaks removed by a suppression report the rule id "suppression".
+ * Units: UTF-16 code units.
+ */
+export function traceSentenceBreaks(
+  input: TextInput,
+  options: SentenceSegmentOptions = {},
+): BreakTraceIterable {
+  const { text } = normalizeInput(input);
+  const { provenance, suppressions } = sentenceSetup(options);
+  const generate = function* (): Iterable<BreakTrace> {
+    if (text.length === 0) return;
+    const { count, codeUnitStarts, props, decide } = createSentenceBreakRules(text);
+    let startCU = 0;
+    for (let i = 1; i < count; i += 1) {
+      const posCU = codeUnitStarts[i] ?? text.length;
+      const rule = decide(i);
+      let ruleId: string = SentenceRule[rule];
+      let isBreak = isSentenceBreakRule(rule);
+      if (
+        isBreak &&
+        suppressions.length > 0 &&
+        isSuppressedBreak(text, startCU, i, props, codeUnitStarts, suppressions)
+      ) {
+        ruleId = "suppression";
+        isBreak = false;
+      }
+      if (isBreak) startCU = posCU;
+      yield {
+        posCU,
+        isBreak,
+        ruleId,
+        propertyBefore: SB_PROPERTY_NAMES[props[i - 1] ?? 0] ?? "Other",
+        propertyAfter: SB_PROPERTY_NAMES[props[i] ?? 0] ?? "Other",
+      };
+    }
+  };
+  return {
+    provenance,
+    [Symbol.iterator]: () => generate()[Symbol.iterator](),
+  };
+}
+
+function sentenceSetup(options: SentenceSegmentOptions): {
+  provenance: Provenance;
+  suppressions: string[];
+} {
+  const suppressions = normalizeSentenceSuppressions(options.suppressions);
+  const normalizedOptions: { algorithmRevision: string; suppressionsDigest?: string } = {
     algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
   };
+  if (suppressions.length > 0) {
+    normalizedOptions.suppressionsDigest = hashCanonicalSync(suppressions);
+  }
   const algorithm = {
     name: "UAX29.Sentence",
     spec: UAX29_SPEC,
@@ -40,206 +168,275 @@ export function segmentSentencesUAX29(
     token: "uax29-sentence",
     sentence: "uax29-sentence",
   });
+  return { provenance, suppressions };
+}
 
-  const generate = function* (): Iterable<Span> {
-    if (text.length === 0) return;
-
-    const { codePoints, codeUnitStarts } = collectCodePoints(text);
-    const count = codePoints.length;
-    if (count === 0) return;
+/**
+ * Precompute sentence break properties for `text`; `decide(index)` returns the rule
+ * for the position before code point `index` (1 <= index < count).
+ */
+function createSentenceBreakRules(text: string): {
+  count: number;
+  codeUnitStarts: number[];
+  props: Int32Array;
+  decide: (index: number) => SentenceRule;
+} {
+  const { codePoints, codeUnitStarts } = collectCodePoints(text);
+  const count = codePoints.length;
+
+  const props = new Int32Array(count);
+  for (let i = 0; i < count; i += 1) {
+    const cp = codePoints[i] ?? 0;
+    props[i] = getSentenceBreakPropertyId(cp);
+  }
 
-    const props = new Int32Array(count);
-    for (let i = 0; i < count; i += 1) {
-      const cp = codePoints[i] ?? 0;
-      props[i] = getSentenceBreakPropertyId(cp);
-    }
+  const isSkippable = (prop: number) =>
+    prop === SentenceBreakPropertyId.Extend || prop === SentenceBreakPropertyId.Format;
 
-    const isSkippable = (prop: number) =>
-      prop === SentenceBreakPropertyId.Extend || prop === SentenceBreakPropertyId.Format;
+  const prevNonSkip = new Int32Array(count);
+  let last = -1;
+  for (let i = 0; i < count; i += 1) {
+    const prop = props[i] ?? 0;
+    if (!isSkippable(prop)) last = i;
+    prevNonSkip[i] = last;
+  }
 
-    const prevNonSkip = new Int32Array(count);
-    let last = -1;
-    for (let i = 0; i < count; i += 1) {
-      const prop = props[i] ?? 0;
-      if (!isSkippable(prop)) last = i;
-      prevNonSkip[i] = last;
-    }
+  const nextNonSkip = new Int32Array(count);
+  let next = -1;
+  for (let i = count - 1; i >= 0; i -= 1) {
+    const prop = props[i] ?? 0;
+    if (!isSkippable(prop)) next = i;
+    nextNonSkip[i] = next;
+  }
 
-    const nextNonSkip = new Int32Array(count);
-    let next = -1;
-    for (let i = count - 1; i >= 0; i -= 1) {
-      const prop = props[i] ?? 0;
-      if (!isSkippable(prop)) next = i;
-      nextNonSkip[i] = next;
+  const isSep = (prop: number) =>
+    prop === SentenceBreakPropertyId.Sep ||
+    prop === SentenceBreakPropertyId.CR ||
+    prop === SentenceBreakPropertyId.LF;
+
+  const continuationRule = (prev: number, currProp: number): SentenceRule => {
+    const left = prevNonSkip[prev] ?? -1;
+    if (left < 0) return SentenceRule.SB998;
+    const { baseLeftProp, validCloseSp } = scanBaseLeft(left, props, prevNonSkip);
+    if (
+      !validCloseSp ||
+      (baseLeftProp !== SentenceBreakPropertyId.STerm &&
+        baseLeftProp !== SentenceBreakPropertyId.ATerm)
+    ) {
+      return SentenceRule.SB998;
     }
+    if ((props[left] ?? 0) !== SentenceBreakPropertyId.Sp) return SentenceRule.SB9;
+    return currProp === SentenceBreakPropertyId.Close ? SentenceRule.SB998 : SentenceRule.SB10;
+  };
 
-    const isSep = (prop: number) =>
-      prop === SentenceBreakPropertyId.Sep ||
-      prop === SentenceBreakPropertyId.CR ||
-      prop === SentenceBreakPropertyId.LF;
-
-    const shouldBreak = (index: number) => {
-      const prev = index - 1;
-      const curr = index;
-      const prevProp = props[prev] ?? 0;
-      const currProp = props[curr] ?? 0;
-
-      if (prevProp === SentenceBreakPropertyId.CR && currProp === SentenceBreakPropertyId.LF) {
-        return false;
-      }
-
-      if (
-        prevProp === SentenceBreakPropertyId.Extend &&
-        (currProp === SentenceBreakPropertyId.Sp ||
-          currProp === SentenceBreakPropertyId.Close ||
-          isSep(currProp))
-      ) {
-        return false;
-      }
+  const decide = (index: number): SentenceRule => {
+    const prev = index - 1;
+    const curr = index;
+    const prevProp = props[prev] ?? 0;
+    const currProp = props[curr] ?? 0;
 
-      if (isSep(prevProp)) return true;
-      if (isSkippable(currProp)) return false;
-      if (isSep(currProp)) return false;
+    if (prevProp === SentenceBreakPropertyId.CR && currProp === SentenceBreakPropertyId.LF) {
+      return SentenceRule.SB3;
+    }
 
-      const left = prevNonSkip[prev] ?? -1;
-      const right = nextNonSkip[curr] ?? -1;
-      if (left < 0 || right < 0) return false;
+    if (
+      prevProp === SentenceBreakPropertyId.Extend &&
+      (currProp === SentenceBreakPropertyId.Sp ||
+        currProp === SentenceBreakPropertyId.Close ||
+        isSep(currProp))
+    ) {
+      return continuationRule(prev, currProp);
+    }
 
-      const leftProp = props[left] ?? 0;
-      const rightProp = props[right] ?? 0;
-      const left2 = left > 0 ? (prevNonSkip[left - 1] ?? -1) : -1;
-      const left2Prop = left2 >= 0 ? (props[left2] ?? 0) : -1;
-      const { baseLeftProp, validCloseSp } = scanBaseLeft(left, props, prevNonSkip);
-      const rightNonCloseProp = scanRightNonCloseSp(right, props, nextNonSkip);
-      const prevEffective = isSkippable(prevProp) ? leftProp : prevProp;
+    if (isSep(prevProp)) return SentenceRule.SB4;
+    if (isSkippable(currProp)) return SentenceRule.SB5;
+    if (isSep(currProp)) return continuationRule(prev, currProp);
+
+    const left = prevNonSkip[prev] ?? -1;
+    const right = nextNonSkip[curr] ?? -1;
+    if (left < 0 || right < 0) return SentenceRule.SB998;
+
+    const leftProp = props[left] ?? 0;
+    const rightProp = props[right] ?? 0;
+    const left2 = left > 0 ? (prevNonSkip[left - 1] ?? -1) : -1;
+    const left2Prop = left2 >= 0 ? (props[left2] ?? 0) : -1;
+    const { baseLeftProp, validCloseSp } = scanBaseLeft(left, props, prevNonSkip);
+    const rightNonCloseProp = scanRightNonCloseSp(right, props, nextNonSkip);
+    const prevEffective = isSkippable(prevProp) ? leftProp : prevProp;
+
+    if (
+      !validCloseSp &&
+      (baseLeftProp === SentenceBreakPropertyId.STerm ||
+        baseLeftProp === SentenceBreakPropertyId.ATerm) &&
+      prevEffective === SentenceBreakPropertyId.Sp
+    ) {
+      const breaksAfter =
+        baseLeftProp === SentenceBreakPropertyId.STerm
+          ? isSentenceStarter(rightNonCloseProp, true)
+          : isSentenceStarter(rightNonCloseProp, false);
+      if (breaksAfter) return SentenceRule.SB11;
+    }
 
-      if (
-        !validCloseSp &&
-        (baseLeftProp === SentenceBreakPropertyId.STerm ||
-          baseLeftProp === SentenceBreakPropertyId.ATerm) &&
-        prevEffective === SentenceBreakPropertyId.Sp
-      ) {
-        const breaksAfter =
-          baseLeftProp === SentenceBreakPropertyId.STerm
-            ? isSentenceStarter(rightNonCloseProp, true)
-            : isSentenceStarter(rightNonCloseProp, false);
-        if (breaksAfter) return true;
-      }
+    if (
+      leftProp === SentenceBreakPropertyId.ATerm &&
+      rightProp === SentenceBreakPropertyId.Numeric
+    ) {
+      return SentenceRule.SB6;
+    }
 
-      if (
-        leftProp === SentenceBreakPropertyId.ATerm &&
-        rightProp === SentenceBreakPropertyId.Numeric
-      ) {
-        return false;
-      }
+    if (
+      leftProp === SentenceBreakPropertyId.ATerm &&
+      rightProp === SentenceBreakPropertyId.Upper &&
+      left2 >= 0 &&
+      (left2Prop === SentenceBreakPropertyId.Upper || left2Prop === SentenceBreakPropertyId.Lower)
+    ) {
+      return SentenceRule.SB7;
+    }
 
-      if (
-        leftProp === SentenceBreakPropertyId.ATerm &&
-        rightProp === SentenceBreakPropertyId.Upper &&
-        left2 >= 0 &&
-        (left2Prop === SentenceBreakPropertyId.Upper || left2Prop === SentenceBreakPropertyId.Lower)
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      baseLeftProp === SentenceBreakPropertyId.ATerm &&
+      rightProp === SentenceBreakPropertyId.Lower
+    ) {
+      return SentenceRule.SB8;
+    }
 
-      if (
-        validCloseSp &&
-        baseLeftProp === SentenceBreakPropertyId.ATerm &&
-        (rightProp === SentenceBreakPropertyId.SContinue ||
-          rightProp === SentenceBreakPropertyId.ATerm ||
-          rightProp === SentenceBreakPropertyId.STerm)
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      baseLeftProp === SentenceBreakPropertyId.ATerm &&
+      rightNonCloseProp === SentenceBreakPropertyId.Lower
+    ) {
+      return SentenceRule.SB8;
+    }
 
-      if (
-        validCloseSp &&
-        (baseLeftProp === SentenceBreakPropertyId.STerm ||
-          baseLeftProp === SentenceBreakPropertyId.ATerm) &&
-        (rightProp === SentenceBreakPropertyId.SContinue ||
-          rightProp === SentenceBreakPropertyId.STerm ||
-          rightProp === SentenceBreakPropertyId.ATerm)
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      baseLeftProp === SentenceBreakPropertyId.ATerm &&
+      (rightProp === SentenceBreakPropertyId.SContinue ||
+        rightProp === SentenceBreakPropertyId.ATerm ||
+        rightProp === SentenceBreakPropertyId.STerm)
+    ) {
+      return SentenceRule.SB8a;
+    }
 
-      if (
-        validCloseSp &&
-        (baseLeftProp === SentenceBreakPropertyId.STerm ||
-          baseLeftProp === SentenceBreakPropertyId.ATerm) &&
-        (prevEffective === SentenceBreakPropertyId.Close ||
-          prevEffective === SentenceBreakPropertyId.ATerm ||
-          prevEffective === SentenceBreakPropertyId.STerm) &&
-        (rightProp === SentenceBreakPropertyId.Close ||
-          rightProp === SentenceBreakPropertyId.Sp ||
-          isSep(rightProp))
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      (baseLeftProp === SentenceBreakPropertyId.STerm ||
+        baseLeftProp === SentenceBreakPropertyId.ATerm) &&
+      (rightProp === SentenceBreakPropertyId.SContinue ||
+        rightProp === SentenceBreakPropertyId.STerm ||
+        rightProp === SentenceBreakPropertyId.ATerm)
+    ) {
+      return SentenceRule.SB8a;
+    }
 
-      if (
-        validCloseSp &&
-        (baseLeftProp === SentenceBreakPropertyId.STerm ||
-          baseLeftProp === SentenceBreakPropertyId.ATerm) &&
-        prevEffective === SentenceBreakPropertyId.Sp &&
-        (rightProp === SentenceBreakPropertyId.Sp || isSep(rightProp))
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      (baseLeftProp === SentenceBreakPropertyId.STerm ||
+        baseLeftProp === SentenceBreakPropertyId.ATerm) &&
+      (prevEffective === SentenceBreakPropertyId.Close ||
+        prevEffective === SentenceBreakPropertyId.ATerm ||
+        prevEffective === SentenceBreakPropertyId.STerm) &&
+      (rightProp === SentenceBreakPropertyId.Close ||
+        rightProp === SentenceBreakPropertyId.Sp ||
+        isSep(rightProp))
+    ) {
+      return SentenceRule.SB9;
+    }
 
-      if (
-        validCloseSp &&
-        baseLeftProp === SentenceBreakPropertyId.ATerm &&
-        rightProp === SentenceBreakPropertyId.Lower
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      (baseLeftProp === SentenceBreakPropertyId.STerm ||
+        baseLeftProp === SentenceBreakPropertyId.ATerm) &&
+      prevEffective === SentenceBreakPropertyId.Sp &&
+      (rightProp === SentenceBreakPropertyId.Sp || isSep(rightProp))
+    ) {
+      return SentenceRule.SB10;
+    }
 
-      if (
-        validCloseSp &&
-        baseLeftProp === SentenceBreakPropertyId.ATerm &&
-        rightNonCloseProp === SentenceBreakPropertyId.Lower
-      ) {
-        return false;
-      }
+    if (
+      validCloseSp &&
+      (baseLeftProp === SentenceBreakPropertyId.STerm ||
+        baseLeftProp === SentenceBreakPropertyId.ATerm) &&
+      (rightProp === SentenceBreakPropertyId.Upper ||
+        rightProp === SentenceBreakPropertyId.Lower ||
+        rightProp === SentenceBreakPropertyId.OLetter ||
+        rightProp === SentenceBreakPropertyId.Numeric ||
+        rightProp === SentenceBreakPropertyId.SContinue)
+    ) {
+      return SentenceRule.SB11;
+    }
 
-      if (
-        validCloseSp &&
-        (baseLeftProp === SentenceBreakPropertyId.STerm ||
-          baseLeftProp === SentenceBreakPropertyId.ATerm) &&
-        (rightProp === SentenceBreakPropertyId.Upper ||
-          rightProp === SentenceBreakPropertyId.Lower ||
-          rightProp === SentenceBreakPropertyId.OLetter ||
-          rightProp === SentenceBreakPropertyId.Numeric ||
-          rightProp === SentenceBreakPropertyId.SContinue)
-      ) {
-        return true;
-      }
+    if (
+      validCloseSp &&
+      (baseLeftProp === SentenceBreakPropertyId.STerm ||
+        baseLeftProp === SentenceBreakPropertyId.ATerm)
+    ) {
+      return SentenceRule.SB11;
+    }
 
-      if (
-        validCloseSp &&
-        (baseLeftProp === SentenceBreakPropertyId.STerm ||
-          baseLeftProp === SentenceBreakPropertyId.ATerm)
-      ) {
-        return true;
-      }
+    return SentenceRule.SB998;
+  };
 
-      return false;
-    };
+  return { count, codeUnitStarts, props, decide };
+}
 
-    let startCU = 0;
-    for (let i = 1; i < count; i += 1) {
-      if (shouldBreak(i)) {
-        const boundary = codeUnitStarts[i] ?? text.length;
-        yield { startCU, endCU: boundary };
-        startCU = boundary;
-      }
+/**
+ * Whether the break before code point `index` follows a suppression, ignoring
+ * trailing Sp/Extend/Format. Matches stay inside the current sentence and must
+ * not continue a letter or number run on their left.
+ */
+function isSuppressedBreak(
+  text: string,
+  sentenceStartCU: number,
+  index: number,
+  props: Int32Array,
+  codeUnitStarts: ArrayLike<number>,
+  suppressions: readonly string[],
+): boolean {
+  let end = index;
+  while (end > 0) {
+    const prop = props[end - 1] ?? 0;
+    if (
+      prop !== SentenceBreakPropertyId.Sp &&
+      prop !== SentenceBreakPropertyId.Extend &&
+      prop !== SentenceBreakPropertyId.Format
+    ) {
+      break;
     }
+    end -= 1;
+  }
+  if (end === 0) return false;
+  const lastProp = props[end - 1] ?? 0;
+  if (
+    lastProp === SentenceBreakPropertyId.Sep ||
+    lastProp === SentenceBreakPropertyId.CR ||
+    lastProp === SentenceBreakPropertyId.LF
+  ) {
+    return false;
+  }
+  const endCU = codeUnitStarts[end] ?? text.length;
+  for (const suppression of suppressions) {
+    const matchStartCU = endCU - suppression.length;
+    if (matchStartCU < sentenceStartCU || !text.startsWith(suppression, matchStartCU)) continue;
+    if (matchStartCU === sentenceStartCU) return true;
+    const before = text.codePointAt(matchStartCU - 1) ?? 0;
+    const beforeCodePoint =
+      before >= 0xdc00 && before <= 0xdfff && matchStartCU >= 2
+        ? (text.codePointAt(matchStartCU - 2) ?? before)
+        : before;
+    if (!isLetterOrNumber(getSentenceBreakPropertyId(beforeCodePoint))) return true;
+  }
+  return false;
+}
 
-    yield { startCU, endCU: text.length };
-  };
-
-  return createSegmentIterable(generate, provenance);
+function isLetterOrNumber(prop: number): boolean {
+  return (
+    prop === SentenceBreakPropertyId.Upper ||
+    prop === SentenceBreakPropertyId.Lower ||
+    prop === SentenceBreakPropertyId.OLetter ||
+    prop === SentenceBreakPropertyId.Numeric
+  );
 }
 
 function isSentenceStarter(prop: number, includeLower: boolean): boolean {
@@ -0,0 +1,128 @@
+import type { AsyncSegmentIterable, SegmentIterable, Span, TextInput } from "../core/types.ts";
+import { type GraphemeSegmentOptions, segmentGraphemes } from "./grapheme.ts";
+import {
+  type BoundaryResolver,
+  resolveGraphemeBoundary,
+  resolveSentenceBoundary,
+  resolveWordBoundary,
+} from "./internal.ts";
+import { type SentenceSegmentOptions, segmentSentencesUAX29 } from "./sentence.ts";
+import { type WordSegmentOptions, segmentWordsUAX29 } from "./word.ts";
+
+type StreamChunks = Iterable<TextInput> | AsyncIterable<TextInput>;
+
+function isHighSurrogate(codeUnit: number): boolean {
+  return codeUnit >= 0xd800 && codeUnit <= 0xdbff;
+}
+
+async function* streamSegments(
+  chunks: StreamChunks,
+  segment: (text: string) => Iterable<Span>,
+  resolveBoundary: BoundaryResolver,
+): AsyncIterable<Span> {
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  let usedDecoder = false;
+  let buffer = "";
+  let bufferStartCU = 0;
+  // Re-scan only once the unresolved buffer has doubled, so a long run without a
+  // resolvable boundary costs amortized linear work instead of a rescan per chunk.
+  let scanAtCU = 0;
+
+  for await (const chunk of chunks) {
+    if (typeof chunk === "string") {
+      buffer += chunk;
+    } else {
+      usedDecoder = true;
+      buffer += decoder.decode(chunk, { stream: true });
+    }
+    if (buffer.length < scanAtCU) continue;
+
+    // A trailing high surrogate may pair with the next chunk; keep it out of the scan.
+    const scanEnd =
+      buffer.length > 0 && isHighSurrogate(buffer.charCodeAt(buffer.length - 1))
+        ? buffer.length - 1
+        : buffer.length;
+    const scanText = buffer.slice(0, scanEnd);
+    let resolvedCU = 0;
+    for (const span of segment(scanText)) {
+      if (span.endCU >= scanText.length) break;
+      if (!resolveBoundary(scanText, span.endCU)) break;
+      yield { startCU: bufferStartCU + span.startCU, endCU: bufferStartCU + span.endCU };
+      resolvedCU = span.endCU;
+    }
+    if (resolvedCU > 0) {
+      buffer = buffer.slice(resolvedCU);
+      bufferStartCU += resolvedCU;
+    }
+    scanAtCU = 2 * buffer.length;
+  }
+
+  if (usedDecoder) {
+    buffer += decoder.decode();
+  }
+
+  for (const span of segment(buffer)) {
+    yield { startCU: bufferStartCU + span.startCU, endCU: bufferStartCU + span.endCU };
+  }
+}
+
+function createAsyncSegmentIterable(
+  generate: () => AsyncIterable<Span>,
+  reference: SegmentIterable,
+): AsyncSegmentIterable {
+  return {
+    provenance: reference.provenance,
+    [Symbol.asyncIterator]: () => generate()[Symbol.asyncIterator](),
+  };
+}
+
+/**
+ * Segment grapheme clusters using UAX #29 over chunked input.
+ * Spans carry absolute offsets identical to `segmentGraphemes` on the joined text.
+ * Units: bytes (UTF-8).
+ * Units: UTF-16 code units.
+ */
+export function segmentGraphemesStream(
+  chunks: StreamChunks,
+  options: GraphemeSegmentOptions = {},
+): AsyncSegmentIterable {
+  const segment = (text: string) => segmentGraphemes(text, options);
+  return createAsyncSegmentIterable(
+    () => streamSegments(chunks, segment, resolveGraphemeBoundary),
+    segment(""),
+  );
+}
+
+/**
+ * Segment word boundaries using UAX #29 over chunked input.
+ * Spans carry absolute offsets identical to `segmentWordsUAX29` on the joined text.
+ * Units: bytes (UTF-8).
+ * Units: UTF-16 code units.
+ */
+export function segmentWordsStream(
+  chunks: StreamChunks,
+  options: WordSegmentOptions = {},
+): AsyncSegmentIterable {
+  const segment = (text: string) => segmentWordsUAX29(text, options);
+  return createAsyncSegmentIterable(
+    () => streamSegments(chunks, segment, resolveWordBoundary),
+    segment(""),
+  );
+}
+
+/**
+ * Segment sentences using UAX #29 over chunked input.
+ * Spans carry absolute offsets identical to `segmentSentencesUAX29` on the joined text.
+ * Units: bytes (UTF-8).
+ * Units: UTF-16 code units.
+ */
+export function segmentSentencesStream(
+  chunks: StreamChunks,
+  options: SentenceSegmentOptions = {},
+): AsyncSegmentIterable {
+  const segment = (text: string) => segmentSentencesUAX29(text, options);
+  return createAsyncSegmentIterable(
+    () => streamSegments(chunks, segment, resolveSentenceBoundary),
+    segment(""),
+  );
+}
@@ -0,0 +1,93 @@
+import { isExtendedPictographic } from "../unicode/emoji.ts";
+import { IDEOGRAPHIC_SCRIPT_RANGES } from "../unicode/generated/script-ideographic.ts";
+import { lookupProperty } from "../unicode/lookup.ts";
+import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
+import type { WordSegmentStatus } from "./word-status.ts";
+
+/** Revision of the word-like rule; provenance records it wherever a `"word-like"` filter applies. */
+export const WORD_LIKE_REVISION = "word-break-v2";
+
+/** Precedence when a segment mixes classes; earlier entries win. */
+export const STATUS_RANK: readonly WordSegmentStatus[] = [
+  "ideographic",
+  "letter",
+  "numeric",
+  "emoji",
+  "punctuation",
+  "whitespace",
+  "other",
+];
+
+/** General categories Zs, Zl and Zp plus tab and vertical tab. */
+const WHITESPACE_CODEPOINTS = new Set([
+  0x0009, 0x000b, 0x0020, 0x00a0, 0x1680, 0x2000, 0x2001, 0x2002, 0x2003, 0x2004, 0x2005, 0x2006,
+  0x2007, 0x2008, 0x2009, 0x200a, 0x2028, 0x2029, 0x202f, 0x205f, 0x3000,
+]);
+
+/**
+ * Status of one code point from word-break data alone; `undefined` for Extend,
+ * Format and ZWJ. Punctuation needs the general category and reads as `other`.
+ */
+export function coarseCodePointStatus(codePoint: number): WordSegmentStatus | undefined {
+  const prop = getWordBreakPropertyId(codePoint);
+  switch (prop) {
+    case WordBreakPropertyId.Extend:
+    case WordBreakPropertyId.Format:
+    case WordBreakPropertyId.ZWJ:
+      return undefined;
+    case WordBreakPropertyId.Katakana:
+      return "ideographic";
+    case WordBreakPropertyId.ALetter:
+    case WordBreakPropertyId.Hebrew_Letter:
+    case WordBreakPropertyId.ExtendNumLet:
+      return "letter";
+    case WordBreakPropertyId.Numeric:
+      return "numeric";
+    case WordBreakPropertyId.Regional_Indicator:
+      return "emoji";
+    case WordBreakPropertyId.WSegSpace:
+    case WordBreakPropertyId.Newline:
+    case WordBreakPropertyId.CR:
+    case WordBreakPropertyId.LF:
+      return "whitespace";
+  }
+  if (lookupProperty(IDEOGRAPHIC_SCRIPT_RANGES, codePoint) !== 0) return "ideographic";
+  if (isExtendedPictographic(codePoint)) return "emoji";
+  if (WHITESPACE_CODEPOINTS.has(codePoint)) return "whitespace";
+  return "other";
+}
+
+/**
+ * `wordSegmentStatus` without the general-category lookup: identical except that
+ * punctuation reports as `other` or `whitespace`.
+ * Units: UTF-16 code units.
+ */
+export function coarseWordSegmentStatus(token: string): WordSegmentStatus {
+  let best = STATUS_RANK.length - 1;
+  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
+    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
+    const status = coarseCodePointStatus(codePoint);
+    if (status !== undefined) {
+      best = Math.min(best, STATUS_RANK.indexOf(status));
+      if (best === 0) break;
+    }
+    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
+  }
+  return STATUS_RANK[best] ?? "other";
+}
+
+/**
+ * Whether a status counts as a word (letter, numeric or ideographic).
+ */
+export function isWordLikeStatus(status: WordSegmentStatus): boolean {
+  return status === "letter" || status === "numeric" || status === "ideographic";
+}
+
+/**
+ * Whether a UAX #29 word segment is word-like; the shared definition behind
+ * every `"word-like"` filter. Needs only word-break, emoji and kana/Han data.
+ * Units: UTF-16 code units.
+ */
+export function isWordLikeToken(token: string): boolean {
+  return isWordLikeStatus(coarseWordSegmentStatus(token));
+}
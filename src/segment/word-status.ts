@@ -0,0 +1,87 @@
+import { normalizeInput } from "../core/input.ts";
+import type { Provenance, Span, TextInput } from "../core/types.ts";
+import { generalCategoryAt } from "../unicode/general-category.ts";
+import { coarseCodePointStatus, coarseWordSegmentStatus, isWordLikeStatus } from "./word-class.ts";
+import { type WordSegmentOptions, segmentWordsUAX29 } from "./word.ts";
+
+export { isWordLikeStatus, isWordLikeToken } from "./word-class.ts";
+
+/**
+ * WordSegmentStatus mirrors the ICU word rule-status categories.
+ * - `letter`: ALetter, Hebrew_Letter or ExtendNumLet content (ICU UBRK_WORD_LETTER).
+ * - `numeric`: Numeric content without letters (UBRK_WORD_NUMBER).
+ * - `ideographic`: Han, Hiragana or Katakana content (UBRK_WORD_KANA / UBRK_WORD_IDEO).
+ * - `emoji`, `punctuation`, `whitespace`, `other`: non-word segments (UBRK_WORD_NONE).
+ */
+export type WordSegmentStatus =
+  | "letter"
+  | "numeric"
+  | "ideographic"
+  | "emoji"
+  | "punctuation"
+  | "whitespace"
+  | "other";
+
+/**
+ * WordSegment defines an exported structural contract.
+ */
+export interface WordSegment extends Span {
+  status: WordSegmentStatus;
+  isWordLike: boolean;
+}
+
+/**
+ * WordSegmentIterable defines an exported structural contract.
+ */
+export interface WordSegmentIterable extends Iterable<WordSegment> {
+  provenance: Provenance;
+}
+
+/**
+ * Status of one UAX #29 word segment, from the highest-ranked class among its
+ * code points (Extend, Format and ZWJ are ignored).
+ * Units: UTF-16 code units.
+ */
+export function wordSegmentStatus(token: string): WordSegmentStatus {
+  const coarse = coarseWordSegmentStatus(token);
+  if (coarse !== "whitespace" && coarse !== "other") return coarse;
+  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
+    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
+    if (
+      coarseCodePointStatus(codePoint) === "other" &&
+      generalCategoryAt(codePoint).startsWith("P")
+    ) {
+      return "punctuation";
+    }
+    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
+  }
+  return coarse;
+}
+
+/**
+ * Segment word boundaries using UAX #29, annotating each span with its status.
+ * Spans and provenance are identical to `segmentWordsUAX29`.
+ * Units: UTF-16 code units.
+ */
+export function segmentWordsWithStatus(
+  input: TextInput,
+  options: WordSegmentOptions = {},
+): WordSegmentIterable {
+  const { text } = normalizeInput(input);
+  const segments = segmentWordsUAX29(text, options);
+  const generate = function* (): Iterable<WordSegment> {
+    for (const span of segments) {
+      const status = wordSegmentStatus(text.slice(span.startCU, span.endCU));
+      yield {
+        startCU: span.startCU,
+        endCU: span.endCU,
+        status,
+        isWordLike: isWordLikeStatus(status),
+      };
+    }
+  };
+  return {
+    provenance: segments.provenance,
+    [Symbol.iterator]: () => generate()[Symbol.iterator](),
+  };
+}
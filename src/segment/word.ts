@@ -1,22 +1,104 @@
 import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
-import type { SegmentIterable, Span, TextInput } from "../core/types.ts";
+import type {
+  BreakTrace,
+  BreakTraceIterable,
+  Provenance,
+  SegmentIterable,
+  Span,
+  TextInput,
+} from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
 import { isExtendedPictographic } from "../unicode/emoji.ts";
-import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
-import { collectCodePoints } from "./internal.ts";
+import { WB_PROPERTY_NAMES } from "../unicode/generated/word-break.ts";
+import { WordBreakPropertyId } from "../unicode/word.ts";
+import { PREFIX_CODEPOINTS, collectCodePoints, tailoredWordBreakPropertyId } from "./internal.ts";
 import { createSegmentIterable } from "./segment-iterable.ts";
 
+/**
+ * WordTailoring names an opt-in UAX #29 word-boundary tailoring.
+ * - `hyphen-joins-letters`: hyphens act as MidLetter, so `well-known` is one word.
+ * - `apostrophe-variants`: grave, acute, prime and reversed quote act as MidNumLet.
+ * - `at-hash-prefix`: `@`/`#` stay attached to a following letter or digit (`@user`, `#tag`).
+ *   Only right context is read, so `a@b` splits as `a`, `@b`.
+ * - `decimal-comma-numbers`: no-break, figure and narrow no-break spaces act as MidNum (`1 234,56`).
+ */
+export type WordTailoring =
+  | "hyphen-joins-letters"
+  | "apostrophe-variants"
+  | "at-hash-prefix"
+  | "decimal-comma-numbers";
+
 /**
  * WordSegmentOptions defines an exported structural contract.
  */
 export interface WordSegmentOptions {
   algorithmRevision?: string;
+  tailorings?: WordTailoring[];
 }
 
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const UAX29_SPEC = "https://unicode.org/reports/tr29/";
 
+/** Deciding word rules; only `traceWordBreaks` turns them into rule id strings. */
+enum WordRule {
+  WB3 = 0,
+  WB3a = 1,
+  WB3b = 2,
+  WB3c = 3,
+  WB3d = 4,
+  WB4 = 5,
+  WB5 = 6,
+  WB6 = 7,
+  WB7 = 8,
+  WB7a = 9,
+  WB7b = 10,
+  WB7c = 11,
+  WB8 = 12,
+  WB9 = 13,
+  WB10 = 14,
+  WB11 = 15,
+  WB12 = 16,
+  WB13 = 17,
+  WB13a = 18,
+  WB13b = 19,
+  AtHashPrefix = 20,
+  WB15 = 21,
+  WB16 = 22,
+  WB999 = 23,
+}
+
+function wordRuleId(rule: WordRule): string {
+  return rule === WordRule.AtHashPrefix ? "tailoring:at-hash-prefix" : WordRule[rule];
+}
+
+/** Rules whose decision is a break; every other rule forbids one. */
+function isWordBreakRule(rule: WordRule): boolean {
+  return rule === WordRule.WB999 || rule === WordRule.WB3a || rule === WordRule.WB3b;
+}
+
+const WORD_TAILORINGS: readonly WordTailoring[] = [
+  "apostrophe-variants",
+  "at-hash-prefix",
+  "decimal-comma-numbers",
+  "hyphen-joins-letters",
+];
+
+/**
+ * Sort and deduplicate tailorings so equal sets hash identically.
+ * Unknown names throw a RangeError.
+ */
+export function normalizeWordTailorings(tailorings: readonly string[] = []): WordTailoring[] {
+  const unique = new Set<WordTailoring>();
+  for (const tailoring of tailorings) {
+    if (!WORD_TAILORINGS.includes(tailoring as WordTailoring)) {
+      throw new RangeError(`Unknown word tailoring: ${tailoring}`);
+    }
+    unique.add(tailoring as WordTailoring);
+  }
+  return WORD_TAILORINGS.filter((tailoring) => unique.has(tailoring));
+}
+
 /**
  * Segment word boundaries using UAX #29.
  * Units: bytes (UTF-8).
@@ -27,9 +109,66 @@ export function segmentWordsUAX29(
   options: WordSegmentOptions = {},
 ): SegmentIterable {
   const { text } = normalizeInput(input);
-  const normalizedOptions = {
+  const { provenance, tailorings } = wordSetup(options);
+
+  const generate = function* (): Iterable<Span> {
+    if (text.length === 0) return;
+    const { count, codeUnitStarts, decide } = createWordBreakRules(text, tailorings);
+    let startCU = 0;
+    for (let i = 1; i < count; i += 1) {
+      if (isWordBreakRule(decide(i))) {
+        const boundary = codeUnitStarts[i] ?? text.length;
+        yield { startCU, endCU: boundary };
+        startCU = boundary;
+      }
+    }
+
+    yield { startCU, endCU: text.length };
+  };
+
+  return createSegmentIterable(generate, provenance);
+}
+
+/**
+ * Trace every word break decision with the UAX #29 rule that made it.
+ * Property values reflect any declared tailorings.
+ * Units: UTF-16 code units.
+ */
+export function traceWordBreaks(
+  input: TextInput,
+  options: WordSegmentOptions = {},
+): BreakTraceIterable {
+  const { text } = normalizeInput(input);
+  const { provenance, tailorings } = wordSetup(options);
+  const generate = function* (): Iterable<BreakTrace> {
+    if (text.length === 0) return;
+    const { count, codeUnitStarts, props, decide } = createWordBreakRules(text, tailorings);
+    for (let i = 1; i < count; i += 1) {
+      const rule = decide(i);
+      yield {
+        posCU: codeUnitStarts[i] ?? text.length,
+        isBreak: isWordBreakRule(rule),
+        ruleId: wordRuleId(rule),
+        propertyBefore: WB_PROPERTY_NAMES[props[i - 1] ?? 0] ?? "Other",
+        propertyAfter: WB_PROPERTY_NAMES[props[i] ?? 0] ?? "Other",
+      };
+    }
+  };
+  return {
+    provenance,
+    [Symbol.iterator]: () => generate()[Symbol.iterator](),
+  };
+}
+
+function wordSetup(options: WordSegmentOptions): {
+  provenance: Provenance;
+  tailorings: ReadonlySet<WordTailoring>;
+} {
+  const tailorings = normalizeWordTailorings(options.tailorings);
+  const normalizedOptions: { algorithmRevision: string; tailorings?: WordTailoring[] } = {
     algorithmRevision: options.algorithmRevision ?? DEFAULT_ALGORITHM_REVISION,
   };
+  if (tailorings.length > 0) normalizedOptions.tailorings = tailorings;
   const algorithm = {
     name: "UAX29.Word",
     spec: UAX29_SPEC,
@@ -41,213 +180,220 @@ export function segmentWordsUAX29(
     token: "uax29-word",
     word: "uax29-word",
   });
+  return { provenance, tailorings: new Set(tailorings) };
+}
 
-  const generate = function* (): Iterable<Span> {
-    if (text.length === 0) return;
-
-    const { codePoints, codeUnitStarts } = collectCodePoints(text);
-    const count = codePoints.length;
-    if (count === 0) return;
-
-    const props = new Int32Array(count);
-    const extPict = new Uint8Array(count);
-    for (let i = 0; i < count; i += 1) {
-      const cp = codePoints[i] ?? 0;
-      props[i] = getWordBreakPropertyId(cp);
-      extPict[i] = isExtendedPictographic(cp) ? 1 : 0;
-    }
-
-    const isSkippable = (prop: number) =>
-      prop === WordBreakPropertyId.Extend ||
-      prop === WordBreakPropertyId.Format ||
-      prop === WordBreakPropertyId.ZWJ;
-
-    const prevNonSkip = new Int32Array(count);
-    let last = -1;
-    for (let i = 0; i < count; i += 1) {
-      const prop = props[i] ?? 0;
-      if (!isSkippable(prop)) last = i;
-      prevNonSkip[i] = last;
-    }
-
-    const nextNonSkip = new Int32Array(count);
-    let next = -1;
-    for (let i = count - 1; i >= 0; i -= 1) {
-      const prop = props[i] ?? 0;
-      if (!isSkippable(prop)) next = i;
-      nextNonSkip[i] = next;
-    }
-
-    const riCountAt = new Int32Array(count);
-    for (let i = 0; i < count; i += 1) {
-      const prop = props[i] ?? 0;
-      if (prop === WordBreakPropertyId.Regional_Indicator) {
-        const prevIndex = i > 0 ? (prevNonSkip[i - 1] ?? -1) : -1;
-        if (prevIndex >= 0 && (props[prevIndex] ?? 0) === WordBreakPropertyId.Regional_Indicator) {
-          riCountAt[i] = (riCountAt[prevIndex] ?? 0) + 1;
-        } else {
-          riCountAt[i] = 1;
-        }
+/**
+ * Precompute word break properties for `text`; `decide(index)` returns the rule
+ * for the position before code point `index` (1 <= index < count).
+ */
+function createWordBreakRules(
+  text: string,
+  tailoringSet: ReadonlySet<WordTailoring>,
+): {
+  count: number;
+  codeUnitStarts: number[];
+  props: Int32Array;
+  decide: (index: number) => WordRule;
+} {
+  const attachPrefix = tailoringSet.has("at-hash-prefix");
+  const { codePoints, codeUnitStarts } = collectCodePoints(text);
+  const count = codePoints.length;
+
+  const props = new Int32Array(count);
+  const extPict = new Uint8Array(count);
+  for (let i = 0; i < count; i += 1) {
+    const cp = codePoints[i] ?? 0;
+    props[i] = tailoredWordBreakPropertyId(cp, tailoringSet);
+    extPict[i] = isExtendedPictographic(cp) ? 1 : 0;
+  }
+
+  const isSkippable = (prop: number) =>
+    prop === WordBreakPropertyId.Extend ||
+    prop === WordBreakPropertyId.Format ||
+    prop === WordBreakPropertyId.ZWJ;
+
+  const prevNonSkip = new Int32Array(count);
+  let last = -1;
+  for (let i = 0; i < count; i += 1) {
+    const prop = props[i] ?? 0;
+    if (!isSkippable(prop)) last = i;
+    prevNonSkip[i] = last;
+  }
+
+  const nextNonSkip = new Int32Array(count);
+  let next = -1;
+  for (let i = count - 1; i >= 0; i -= 1) {
+    const prop = props[i] ?? 0;
+    if (!isSkippable(prop)) next = i;
+    nextNonSkip[i] = next;
+  }
+
+  const riCountAt = new Int32Array(count);
+  const riRunFromStart = new Uint8Array(count);
+  for (let i = 0; i < count; i += 1) {
+    const prop = props[i] ?? 0;
+    if (prop === WordBreakPropertyId.Regional_Indicator) {
+      const prevIndex = i > 0 ? (prevNonSkip[i - 1] ?? -1) : -1;
+      if (prevIndex >= 0 && (props[prevIndex] ?? 0) === WordBreakPropertyId.Regional_Indicator) {
+        riCountAt[i] = (riCountAt[prevIndex] ?? 0) + 1;
+        riRunFromStart[i] = riRunFromStart[prevIndex] ?? 0;
       } else {
-        riCountAt[i] = 0;
+        riCountAt[i] = 1;
+        riRunFromStart[i] = prevIndex < 0 ? 1 : 0;
       }
+    } else {
+      riCountAt[i] = 0;
+    }
+  }
+
+  const isNewline = (prop: number) =>
+    prop === WordBreakPropertyId.Newline ||
+    prop === WordBreakPropertyId.CR ||
+    prop === WordBreakPropertyId.LF;
+
+  const isAHLetter = (prop: number) =>
+    prop === WordBreakPropertyId.ALetter || prop === WordBreakPropertyId.Hebrew_Letter;
+
+  const isMidLetter = (prop: number) =>
+    prop === WordBreakPropertyId.MidLetter ||
+    prop === WordBreakPropertyId.MidNumLet ||
+    prop === WordBreakPropertyId.Single_Quote;
+
+  const isMidNum = (prop: number) =>
+    prop === WordBreakPropertyId.MidNum ||
+    prop === WordBreakPropertyId.MidNumLet ||
+    prop === WordBreakPropertyId.Single_Quote;
+
+  const isAHNumKatOrExtend = (prop: number) =>
+    isAHLetter(prop) ||
+    prop === WordBreakPropertyId.Numeric ||
+    prop === WordBreakPropertyId.Katakana ||
+    prop === WordBreakPropertyId.ExtendNumLet;
+
+  const isAHNumKat = (prop: number) =>
+    isAHLetter(prop) ||
+    prop === WordBreakPropertyId.Numeric ||
+    prop === WordBreakPropertyId.Katakana;
+
+  const decide = (index: number): WordRule => {
+    const prev = index - 1;
+    const curr = index;
+    const prevProp = props[prev] ?? 0;
+    const currProp = props[curr] ?? 0;
+
+    if (prevProp === WordBreakPropertyId.CR && currProp === WordBreakPropertyId.LF)
+      return WordRule.WB3;
+    if (isNewline(prevProp)) return WordRule.WB3a;
+    if (isNewline(currProp)) return WordRule.WB3b;
+
+    if (prevProp === WordBreakPropertyId.ZWJ && (extPict[curr] ?? 0) === 1) {
+      return WordRule.WB3c;
     }
 
-    const isNewline = (prop: number) =>
-      prop === WordBreakPropertyId.Newline ||
-      prop === WordBreakPropertyId.CR ||
-      prop === WordBreakPropertyId.LF;
-
-    const isAHLetter = (prop: number) =>
-      prop === WordBreakPropertyId.ALetter || prop === WordBreakPropertyId.Hebrew_Letter;
-
-    const isMidLetter = (prop: number) =>
-      prop === WordBreakPropertyId.MidLetter ||
-      prop === WordBreakPropertyId.MidNumLet ||
-      prop === WordBreakPropertyId.Single_Quote;
-
-    const isMidNum = (prop: number) =>
-      prop === WordBreakPropertyId.MidNum ||
-      prop === WordBreakPropertyId.MidNumLet ||
-      prop === WordBreakPropertyId.Single_Quote;
-
-    const isAHNumKatOrExtend = (prop: number) =>
-      isAHLetter(prop) ||
-      prop === WordBreakPropertyId.Numeric ||
-      prop === WordBreakPropertyId.Katakana ||
-      prop === WordBreakPropertyId.ExtendNumLet;
-
-    const isAHNumKat = (prop: number) =>
-      isAHLetter(prop) ||
-      prop === WordBreakPropertyId.Numeric ||
-      prop === WordBreakPropertyId.Katakana;
-
-    const shouldBreak = (index: number) => {
-      const prev = index - 1;
-      const curr = index;
-      const prevProp = props[prev] ?? 0;
-      const currProp = props[curr] ?? 0;
-
-      if (prevProp === WordBreakPropertyId.CR && currProp === WordBreakPropertyId.LF) return false;
-      if (isNewline(prevProp)) return true;
-      if (isNewline(currProp)) return true;
-
-      if (prevProp === WordBreakPropertyId.ZWJ && (extPict[curr] ?? 0) === 1) {
-        return false;
-      }
-
-      if (
-        prevProp === WordBreakPropertyId.WSegSpace &&
-        currProp === WordBreakPropertyId.WSegSpace
-      ) {
-        return false;
-      }
-
-      if (isSkippable(currProp)) return false;
+    if (prevProp === WordBreakPropertyId.WSegSpace && currProp === WordBreakPropertyId.WSegSpace) {
+      return WordRule.WB3d;
+    }
 
-      const left = prevNonSkip[prev] ?? -1;
-      const right = nextNonSkip[curr] ?? -1;
-      if (left < 0 || right < 0) return true;
+    if (isSkippable(currProp)) return WordRule.WB4;
 
-      const leftProp = props[left] ?? 0;
-      const rightProp = props[right] ?? 0;
+    const left = prevNonSkip[prev] ?? -1;
+    const right = nextNonSkip[curr] ?? -1;
+    if (left < 0 || right < 0) return WordRule.WB999;
 
-      const left2 = left > 0 ? (prevNonSkip[left - 1] ?? -1) : -1;
-      const right2 = right + 1 < count ? (nextNonSkip[right + 1] ?? -1) : -1;
-      const left2Prop = left2 >= 0 ? (props[left2] ?? 0) : -1;
-      const right2Prop = right2 >= 0 ? (props[right2] ?? 0) : -1;
+    const leftProp = props[left] ?? 0;
+    const rightProp = props[right] ?? 0;
 
-      if (isAHLetter(leftProp) && isAHLetter(rightProp)) return false;
+    const left2 = left > 0 ? (prevNonSkip[left - 1] ?? -1) : -1;
+    const right2 = right + 1 < count ? (nextNonSkip[right + 1] ?? -1) : -1;
+    const left2Prop = left2 >= 0 ? (props[left2] ?? 0) : -1;
+    const right2Prop = right2 >= 0 ? (props[right2] ?? 0) : -1;
 
-      if (isAHLetter(leftProp) && isMidLetter(rightProp) && right2 >= 0 && isAHLetter(right2Prop)) {
-        return false;
-      }
+    if (isAHLetter(leftProp) && isAHLetter(rightProp)) return WordRule.WB5;
 
-      if (left2 >= 0 && isAHLetter(left2Prop) && isMidLetter(leftProp) && isAHLetter(rightProp)) {
-        return false;
-      }
+    if (isAHLetter(leftProp) && isMidLetter(rightProp) && right2 >= 0 && isAHLetter(right2Prop)) {
+      return WordRule.WB6;
+    }
 
-      if (
-        leftProp === WordBreakPropertyId.Hebrew_Letter &&
-        rightProp === WordBreakPropertyId.Single_Quote
-      ) {
-        return false;
-      }
+    if (left2 >= 0 && isAHLetter(left2Prop) && isMidLetter(leftProp) && isAHLetter(rightProp)) {
+      return WordRule.WB7;
+    }
 
-      if (
-        leftProp === WordBreakPropertyId.Hebrew_Letter &&
-        rightProp === WordBreakPropertyId.Double_Quote &&
-        right2 >= 0 &&
-        right2Prop === WordBreakPropertyId.Hebrew_Letter
-      ) {
-        return false;
-      }
+    if (
+      leftProp === WordBreakPropertyId.Hebrew_Letter &&
+      rightProp === WordBreakPropertyId.Single_Quote
+    ) {
+      return WordRule.WB7a;
+    }
 
-      if (
-        left2 >= 0 &&
-        left2Prop === WordBreakPropertyId.Hebrew_Letter &&
-        leftProp === WordBreakPropertyId.Double_Quote &&
-        rightProp === WordBreakPropertyId.Hebrew_Letter
-      ) {
-        return false;
-      }
+    if (
+      leftProp === WordBreakPropertyId.Hebrew_Letter &&
+      rightProp === WordBreakPropertyId.Double_Quote &&
+      right2 >= 0 &&
+      right2Prop === WordBreakPropertyId.Hebrew_Letter
+    ) {
+      return WordRule.WB7b;
+    }
 
-      if (leftProp === WordBreakPropertyId.Numeric && rightProp === WordBreakPropertyId.Numeric) {
-        return false;
-      }
+    if (
+      left2 >= 0 &&
+      left2Prop === WordBreakPropertyId.Hebrew_Letter &&
+      leftProp === WordBreakPropertyId.Double_Quote &&
+      rightProp === WordBreakPropertyId.Hebrew_Letter
+    ) {
+      return WordRule.WB7c;
+    }
 
-      if (isAHLetter(leftProp) && rightProp === WordBreakPropertyId.Numeric) return false;
-      if (leftProp === WordBreakPropertyId.Numeric && isAHLetter(rightProp)) return false;
+    if (leftProp === WordBreakPropertyId.Numeric && rightProp === WordBreakPropertyId.Numeric) {
+      return WordRule.WB8;
+    }
 
-      if (
-        left2 >= 0 &&
-        left2Prop === WordBreakPropertyId.Numeric &&
-        isMidNum(leftProp) &&
-        rightProp === WordBreakPropertyId.Numeric
-      ) {
-        return false;
-      }
+    if (isAHLetter(leftProp) && rightProp === WordBreakPropertyId.Numeric) return WordRule.WB9;
+    if (leftProp === WordBreakPropertyId.Numeric && isAHLetter(rightProp)) return WordRule.WB10;
 
-      if (
-        leftProp === WordBreakPropertyId.Numeric &&
-        isMidNum(rightProp) &&
-        right2 >= 0 &&
-        right2Prop === WordBreakPropertyId.Numeric
-      ) {
-        return false;
-      }
+    if (
+      left2 >= 0 &&
+      left2Prop === WordBreakPropertyId.Numeric &&
+      isMidNum(leftProp) &&
+      rightProp === WordBreakPropertyId.Numeric
+    ) {
+      return WordRule.WB11;
+    }
 
-      if (leftProp === WordBreakPropertyId.Katakana && rightProp === WordBreakPropertyId.Katakana) {
-        return false;
-      }
+    if (
+      leftProp === WordBreakPropertyId.Numeric &&
+      isMidNum(rightProp) &&
+      right2 >= 0 &&
+      right2Prop === WordBreakPropertyId.Numeric
+    ) {
+      return WordRule.WB12;
+    }
 
-      if (isAHNumKatOrExtend(leftProp) && rightProp === WordBreakPropertyId.ExtendNumLet) {
-        return false;
-      }
+    if (leftProp === WordBreakPropertyId.Katakana && rightProp === WordBreakPropertyId.Katakana) {
+      return WordRule.WB13;
+    }
 
-      if (leftProp === WordBreakPropertyId.ExtendNumLet && isAHNumKat(rightProp)) return false;
+    if (isAHNumKatOrExtend(leftProp) && rightProp === WordBreakPropertyId.ExtendNumLet) {
+      return WordRule.WB13a;
+    }
 
-      if (
-        leftProp === WordBreakPropertyId.Regional_Indicator &&
-        rightProp === WordBreakPropertyId.Regional_Indicator
-      ) {
-        return (riCountAt[left] ?? 0) % 2 === 0;
-      }
+    if (leftProp === WordBreakPropertyId.ExtendNumLet && isAHNumKat(rightProp))
+      return WordRule.WB13b;
 
-      return true;
-    };
+    if (attachPrefix && PREFIX_CODEPOINTS.has(codePoints[left] ?? 0) && isAHNumKat(rightProp)) {
+      return WordRule.AtHashPrefix;
+    }
 
-    let startCU = 0;
-    for (let i = 1; i < count; i += 1) {
-      if (shouldBreak(i)) {
-        const boundary = codeUnitStarts[i] ?? text.length;
-        yield { startCU, endCU: boundary };
-        startCU = boundary;
-      }
+    if (
+      leftProp === WordBreakPropertyId.Regional_Indicator &&
+      rightProp === WordBreakPropertyId.Regional_Indicator &&
+      (riCountAt[left] ?? 0) % 2 === 1
+    ) {
+      return (riRunFromStart[left] ?? 0) === 1 ? WordRule.WB15 : WordRule.WB16;
     }
 
-    yield { startCU, endCU: text.length };
+    return WordRule.WB999;
   };
 
-  return createSegmentIterable(generate, provenance);
+  return { count, codeUnitStarts, props, decide };
 }
@@ -0,0 +1,15 @@
+// Generated from Unicode 17.0.0 Scripts.txt (Han, Hiragana, Katakana).
+// DO NOT EDIT MANUALLY.
+
+export const IDEOGRAPHIC_SCRIPT_RANGES = new Int32Array([
+  11904, 11929, 1, 11931, 12019, 1, 12032, 12245, 1, 12293, 12293, 1,
+  12295, 12295, 1, 12321, 12329, 1, 12344, 12347, 1, 12353, 12438, 1,
+  12445, 12447, 1, 12449, 12538, 1, 12541, 12543, 1, 12784, 12799, 1,
+  13008, 13054, 1, 13056, 13143, 1, 13312, 19903, 1, 19968, 40959, 1,
+  63744, 64109, 1, 64112, 64217, 1, 65382, 65391, 1, 65393, 65437, 1,
+  94178, 94179, 1, 94192, 94198, 1, 110576, 110579, 1, 110581, 110587, 1,
+  110589, 110590, 1, 110592, 110882, 1, 110898, 110898, 1, 110928, 110930, 1,
+  110933, 110933, 1, 110948, 110951, 1, 127488, 127488, 1, 131072, 173791, 1,
+  173824, 178205, 1, 178208, 183981, 1, 183984, 191456, 1, 191472, 192093, 1,
+  194560, 195101, 1, 196608, 201546, 1, 201552, 210041, 1
+]);
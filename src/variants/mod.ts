@@ -7,4 +7,4 @@ export type {
   VariantTokenizer,
   VariantCanonicalKey,
 } from "./variant-index.ts";
-export { buildVariantIndex, buildCorpusVariantIndex } from "./variant-index.ts";
+export { buildVariantIndex, buildCorpusVariantIndex, variantTokenKey } from "./variant-index.ts";
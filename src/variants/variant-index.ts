@@ -1,17 +1,19 @@
 import { nfkcCaseFold } from "../casefold/casefold.ts";
-import type { UcaOptions } from "../collation/types.ts";
-import { ucaCompare } from "../collation/uca.ts";
+import type { UcaFoldOptions, UcaOptions } from "../collation/types.ts";
+import { ucaCompare, ucaFoldKey } from "../collation/uca.ts";
 import { compareByCodePoint } from "../core/compare.ts";
 import { normalizeInput } from "../core/input.ts";
 import { createProvenance } from "../core/provenance.ts";
 import { sliceBySpan } from "../core/span.ts";
 import type { Provenance, Span, TextInput } from "../core/types.ts";
 import { IMPLEMENTATION_ID } from "../core/version.ts";
+import type { WordTokenKey } from "../facts/token-filter.ts";
+import { normalize } from "../normalize/normalize.ts";
 import { confusableSkeleton } from "../security/confusables.ts";
 import { segmentGraphemes } from "../segment/grapheme.ts";
-import { segmentWordsUAX29 } from "../segment/word.ts";
+import { WORD_LIKE_REVISION, isWordLikeToken } from "../segment/word-class.ts";
+import { type WordTailoring, normalizeWordTailorings, segmentWordsUAX29 } from "../segment/word.ts";
 import { SCRIPT_NAMES, Script, scriptExtAt, scriptIdAt } from "../unicode/script.ts";
-import { WordBreakPropertyId, getWordBreakPropertyId } from "../unicode/word.ts";
 
 /**
  * VariantTokenizer defines an exported type contract.
@@ -20,7 +22,7 @@ export type VariantTokenizer = "uax29-word" | "uax29-grapheme" | "codePoint" | "
 /**
  * VariantCanonicalKey defines an exported type contract.
  */
-export type VariantCanonicalKey = "nfkcCaseFold" | "skeleton" | "raw";
+export type VariantCanonicalKey = "nfkcCaseFold" | "skeleton" | "raw" | "nfc" | "ucaFold";
 
 /**
  * VariantIndexOptions defines an exported structural contract.
@@ -29,11 +31,14 @@ export interface VariantIndexOptions {
   tokenizer: VariantTokenizer;
   canonicalKey: VariantCanonicalKey;
   wordFilter?: "all" | "word-like";
+  wordTailorings?: WordTailoring[];
   customTokenizer?: (text: string) => Iterable<Span>;
   maxExamplesPerVariant?: number;
   maxVariants?: number;
   sortOrder?: "codepoint" | "uca";
   collationOptions?: UcaOptions;
+  /** Fold used when `canonicalKey` is `ucaFold`; defaults to strength 1. */
+  ucaFold?: UcaFoldOptions;
 }
 
 /**
@@ -94,28 +99,10 @@ interface VariantAccumulator {
 const DEFAULT_ALGORITHM_REVISION = "Unicode 17.0.0";
 const VARIANT_SPEC = "textfacts:variants";
 
-const WORDLIKE_PROPS = new Set<number>([
-  WordBreakPropertyId.ALetter,
-  WordBreakPropertyId.Hebrew_Letter,
-  WordBreakPropertyId.Numeric,
-  WordBreakPropertyId.Katakana,
-  WordBreakPropertyId.ExtendNumLet,
-]);
-
-function isWordLikeToken(token: string): boolean {
-  for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
-    const codePoint = token.codePointAt(codeUnitIndex) ?? 0;
-    const wordBreakPropertyId = getWordBreakPropertyId(codePoint);
-    if (WORDLIKE_PROPS.has(wordBreakPropertyId)) return true;
-    codeUnitIndex += codePoint > 0xffff ? 2 : 1;
-  }
-  return false;
-}
-
 function iterateSpans(text: string, options: VariantIndexOptions): Iterable<Span> {
   switch (options.tokenizer) {
     case "uax29-word":
-      return segmentWordsUAX29(text);
+      return segmentWordsUAX29(text, { tailorings: options.wordTailorings ?? [] });
     case "uax29-grapheme":
       return segmentGraphemes(text);
     case "codePoint":
@@ -137,8 +124,24 @@ function iterateSpans(text: string, options: VariantIndexOptions): Iterable<Span
   }
 }
 
-function canonicalizeToken(token: string, canonicalKey: VariantCanonicalKey): string {
+const DEFAULT_UCA_FOLD: UcaFoldOptions = { strength: 1 };
+
+/**
+ * Canonical key of a token; `ucaFold` keys are the hex folded UCA sort key.
+ */
+export function canonicalizeToken(
+  token: string,
+  canonicalKey: VariantCanonicalKey,
+  ucaFold: UcaFoldOptions = DEFAULT_UCA_FOLD,
+): string {
   switch (canonicalKey) {
+    case "nfc":
+      return normalize(token, "NFC");
+    case "ucaFold": {
+      let hex = "";
+      for (const byte of ucaFoldKey(token, ucaFold)) hex += byte.toString(16).padStart(2, "0");
+      return hex;
+    }
     case "nfkcCaseFold":
       return nfkcCaseFold(token);
     case "skeleton":
@@ -148,6 +151,22 @@ function canonicalizeToken(token: string, canonicalKey: VariantCanonicalKey): st
   }
 }
 
+/**
+ * Key function for `wordFrequencies` and token filter terms, computing keys as
+ * `buildVariantIndex` does.
+ * The `ucaFold` fold defaults to strength 1.
+ */
+export function variantTokenKey(
+  canonicalKey: VariantCanonicalKey,
+  ucaFold?: UcaFoldOptions,
+): WordTokenKey {
+  const fold = canonicalKey === "ucaFold" ? (ucaFold ?? DEFAULT_UCA_FOLD) : undefined;
+  return {
+    config: fold ? { canonicalKey, ucaFold: fold } : { canonicalKey },
+    keyOf: (token) => canonicalizeToken(token, canonicalKey, fold),
+  };
+}
+
 function collectScripts(token: string): { scripts: number[]; hasMixedScript: boolean } {
   const scriptSet = new Set<number>();
   for (let codeUnitIndex = 0; codeUnitIndex < token.length; ) {
@@ -188,7 +207,9 @@ function buildProvenance(options: VariantIndexOptions): Provenance {
       revisionOrDate: DEFAULT_ALGORITHM_REVISION,
       implementationId: IMPLEMENTATION_ID,
     },
-    options,
+    options.tokenizer === "uax29-word" && options.wordFilter === "word-like"
+      ? { ...options, wordLike: WORD_LIKE_REVISION }
+      : options,
     units,
   );
 }
@@ -252,10 +273,16 @@ export function buildVariantIndex(input: TextInput, options: VariantIndexOptions
     maxVariants: options.maxVariants ?? Number.POSITIVE_INFINITY,
     sortOrder: options.sortOrder ?? "codepoint",
   };
+  if (options.wordTailorings) {
+    normalizedOptions.wordTailorings = normalizeWordTailorings(options.wordTailorings);
+  }
   if (options.customTokenizer) normalizedOptions.customTokenizer = options.customTokenizer;
   if (options.collationOptions !== undefined) {
     normalizedOptions.collationOptions = options.collationOptions;
   }
+  if (options.canonicalKey === "ucaFold") {
+    normalizedOptions.ucaFold = options.ucaFold ?? DEFAULT_UCA_FOLD;
+  }
   const maxExamples = normalizedOptions.maxExamplesPerVariant ?? 5;
   const maxVariants = normalizedOptions.maxVariants ?? Number.POSITIVE_INFINITY;
   const accumulators = new Map<string, VariantAccumulator>();
@@ -272,7 +299,7 @@ export function buildVariantIndex(input: TextInput, options: VariantIndexOptions
       continue;
     }
     totalTokens += 1;
-    const key = canonicalizeToken(token, normalizedOptions.canonicalKey);
+    const key = canonicalizeToken(token, normalizedOptions.canonicalKey, normalizedOptions.ucaFold);
     let entry = accumulators.get(key);
     if (!entry) {
       if (accumulators.size >= maxVariants) {
@@ -342,10 +369,16 @@ export async function buildCorpusVariantIndex(
     maxVariants: options.maxVariants ?? Number.POSITIVE_INFINITY,
     sortOrder: options.sortOrder ?? "codepoint",
   };
+  if (options.wordTailorings) {
+    normalizedOptions.wordTailorings = normalizeWordTailorings(options.wordTailorings);
+  }
   if (options.customTokenizer) normalizedOptions.customTokenizer = options.customTokenizer;
   if (options.collationOptions !== undefined) {
     normalizedOptions.collationOptions = options.collationOptions;
   }
+  if (options.canonicalKey === "ucaFold") {
+    normalizedOptions.ucaFold = options.ucaFold ?? DEFAULT_UCA_FOLD;
+  }
   const maxExamples = normalizedOptions.maxExamplesPerVariant ?? 5;
   const maxVariants = normalizedOptions.maxVariants ?? Number.POSITIVE_INFINITY;
   const accumulators = new Map<string, VariantAccumulator>();
@@ -364,7 +397,11 @@ export async function buildCorpusVariantIndex(
         continue;
       }
       totalTokens += 1;
-      const key = canonicalizeToken(token, normalizedOptions.canonicalKey);
+      const key = canonicalizeToken(
+        token,
+        normalizedOptions.canonicalKey,
+        normalizedOptions.ucaFold,
+      );
       let entry = accumulators.get(key);
       if (!entry) {
         if (accumulators.size >= maxVariants) {
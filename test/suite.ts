@@ -45,6 +45,1029 @@ export function registerTests(api: TestApi): void {
     api.assertEqual(spans[spans.length - 1].endCU, text.length);
   });
 
+  api.test("byte-span segmenters index the original UTF-8 buffer", async () => {
+    const { segmentGraphemesBytes, segmentWordsUAX29Bytes, lineBreakOpportunitiesBytes } =
+      await importTextfacts();
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode("é 😀")]);
+    const graphemes = segmentGraphemesBytes(bytes);
+    api.assertDeepEqual(
+      [...graphemes],
+      [
+        { startB: 3, endB: 6 },
+        { startB: 6, endB: 7 },
+        { startB: 7, endB: 11 },
+      ],
+    );
+    api.assertEqual(graphemes.provenance.units.byte, "utf8-byte");
+    const words = [...segmentWordsUAX29Bytes("aé b")];
+    api.assertDeepEqual(words[words.length - 1], { startB: 4, endB: 5 });
+    const positions = [...lineBreakOpportunitiesBytes("é b")]
+      .filter((opportunity) => opportunity.kind !== "prohibited")
+      .map((opportunity) => opportunity.posB);
+    api.assertDeepEqual(positions, [3, 4]);
+  });
+
+  api.test("streaming segmenters match one-shot spans for any chunking", async () => {
+    const {
+      segmentGraphemes,
+      segmentGraphemesStream,
+      segmentSentencesStream,
+      segmentSentencesUAX29,
+      segmentWordsStream,
+      segmentWordsUAX29,
+    } = await importTextfacts();
+    const text =
+      'Mr. Smith said "etc. 3.14". (Really?)  Then­ a.b, 1,000 א"ב\r\nNew 🇺🇸🇫🇷 👨‍👩 क्ष end.';
+    const pairs = [
+      [segmentGraphemes, segmentGraphemesStream],
+      [segmentWordsUAX29, segmentWordsStream],
+      [segmentSentencesUAX29, segmentSentencesStream],
+    ] as const;
+    for (const [oneShot, stream] of pairs) {
+      const expected = [...oneShot(text)];
+      for (let size = 1; size <= 7; size += 1) {
+        const chunks: string[] = [];
+        for (let index = 0; index < text.length; index += size) {
+          chunks.push(text.slice(index, index + size));
+        }
+        const actual = [];
+        for await (const span of stream(chunks)) actual.push(span);
+        api.assertDeepEqual(actual, expected);
+      }
+    }
+    const bytes = new TextEncoder().encode(text);
+    const byteChunks = [bytes.subarray(0, 5), bytes.subarray(5, 61), bytes.subarray(61)];
+    const actual = [];
+    for await (const span of segmentWordsStream(byteChunks)) actual.push(span);
+    api.assertDeepEqual(actual, [...segmentWordsUAX29(text)]);
+  });
+
+  api.test("streaming stays linear across long runs without a boundary", async () => {
+    const { segmentWordsStream, segmentWordsUAX29, wordFrequencyBuilder } = await importTextfacts();
+    const text = `${"a".repeat(20000)} ${"🇺🇸".repeat(5000)} b`;
+    const chunks = [...text];
+    const actual = [];
+    for await (const span of segmentWordsStream(chunks)) actual.push(span);
+    api.assertDeepEqual(actual, [...segmentWordsUAX29(text)]);
+    const chunked = wordFrequencyBuilder();
+    for (const chunk of chunks) chunked.update(chunk);
+    const whole = wordFrequencyBuilder();
+    whole.update(text);
+    api.assertEqual(chunked.serialize(), whole.serialize());
+    api.assertDeepEqual(chunked.finalize(), whole.finalize());
+  });
+
+  api.test("random-access boundary queries agree with full segmentation", async () => {
+    const {
+      followingBoundary,
+      followingLineBoundary,
+      isBoundary,
+      isLineBoundary,
+      lineBreakPositions,
+      precedingBoundary,
+      precedingLineBoundary,
+      segmentGraphemes,
+      segmentSentencesUAX29,
+      segmentWordsUAX29,
+    } = await importTextfacts();
+    const text = "Dr. Who's 3.14 café 👨‍👩 🇺🇸🇫🇷. Next line\nZ";
+    const expected = {
+      grapheme: [0, ...[...segmentGraphemes(text)].map((span) => span.endCU)],
+      word: [0, ...[...segmentWordsUAX29(text)].map((span) => span.endCU)],
+      sentence: [0, ...[...segmentSentencesUAX29(text)].map((span) => span.endCU)],
+      line: [0, ...lineBreakPositions(text)],
+    } as const;
+    const queries = {
+      grapheme: {
+        isAt: (pos: number) => isBoundary(text, pos, "grapheme"),
+        preceding: (pos: number) => precedingBoundary(text, pos, "grapheme"),
+        following: (pos: number) => followingBoundary(text, pos, "grapheme"),
+      },
+      word: {
+        isAt: (pos: number) => isBoundary(text, pos, "word"),
+        preceding: (pos: number) => precedingBoundary(text, pos, "word"),
+        following: (pos: number) => followingBoundary(text, pos, "word"),
+      },
+      sentence: {
+        isAt: (pos: number) => isBoundary(text, pos, "sentence"),
+        preceding: (pos: number) => precedingBoundary(text, pos, "sentence"),
+        following: (pos: number) => followingBoundary(text, pos, "sentence"),
+      },
+      line: {
+        isAt: (pos: number) => isLineBoundary(text, pos),
+        preceding: (pos: number) => precedingLineBoundary(text, pos),
+        following: (pos: number) => followingLineBoundary(text, pos),
+      },
+    };
+    for (const kind of ["grapheme", "word", "sentence", "line"] as const) {
+      const boundaries = expected[kind];
+      const { isAt, preceding, following } = queries[kind];
+      for (let pos = 0; pos <= text.length; pos += 1) {
+        api.assertEqual(isAt(pos), boundaries.includes(pos));
+        const before = boundaries.filter((boundary) => boundary < pos);
+        const after = boundaries.filter((boundary) => boundary > pos);
+        api.assertEqual(preceding(pos), before[before.length - 1] ?? -1);
+        api.assertEqual(following(pos), after[0] ?? -1);
+      }
+    }
+  });
+
+  api.test("random-access boundary queries honor tailorings and suppressions", async () => {
+    const {
+      followingBoundary,
+      isBoundary,
+      precedingBoundary,
+      segmentSentencesUAX29,
+      segmentWordsUAX29,
+    } = await importTextfacts();
+    const wordText = "well-known @user a#b rock\u0060n 1\u00a0234,56 x#tag ##y";
+    const wordOptions: Parameters<typeof segmentWordsUAX29>[1] = {
+      tailorings: [
+        "apostrophe-variants",
+        "at-hash-prefix",
+        "decimal-comma-numbers",
+        "hyphen-joins-letters",
+      ],
+    };
+    const sentenceText = "Mr. Smith met Dr. Who. He left. Mr. X arrived.\nDr. No. Mr.\nY.";
+    const sentenceOptions = { suppressions: ["Dr.", "Mr."] };
+    const cases = [
+      {
+        kind: "word",
+        text: wordText,
+        options: wordOptions,
+        spans: [...segmentWordsUAX29(wordText, wordOptions)],
+      },
+      {
+        kind: "sentence",
+        text: sentenceText,
+        options: sentenceOptions,
+        spans: [...segmentSentencesUAX29(sentenceText, sentenceOptions)],
+      },
+    ] as const;
+    for (const { kind, text, options, spans } of cases) {
+      const boundaries = [0, ...spans.map((span) => span.endCU)];
+      for (let pos = 0; pos <= text.length; pos += 1) {
+        api.assertEqual(isBoundary(text, pos, kind, options), boundaries.includes(pos));
+        const before = boundaries.filter((boundary) => boundary < pos);
+        const after = boundaries.filter((boundary) => boundary > pos);
+        api.assertEqual(
+          precedingBoundary(text, pos, kind, options),
+          before[before.length - 1] ?? -1,
+        );
+        api.assertEqual(followingBoundary(text, pos, kind, options), after[0] ?? -1);
+      }
+    }
+    api.assertEqual(isBoundary(sentenceText, 4, "sentence"), true);
+    api.assertEqual(isBoundary(sentenceText, 4, "sentence", sentenceOptions), false);
+  });
+
+  api.test("word tailorings change boundaries and provenance", async () => {
+    const {
+      buildFingerprintIndex,
+      compareTextsDetailed,
+      segmentWordsUAX29,
+      sliceBySpan,
+      tokenizeForComparison,
+      wordFrequencies,
+    } = await importTextfacts();
+    type Tailorings = NonNullable<Parameters<typeof segmentWordsUAX29>[1]>["tailorings"];
+    const text = "well-known @user #tag a@b rock\u0060n it\u00b4s 1\u00a0234,56 7\u202f890";
+    const words = (tailorings: Parameters<typeof segmentWordsUAX29>[1]) =>
+      [...segmentWordsUAX29(text, tailorings)]
+        .map((span) => sliceBySpan(text, span))
+        .filter((token) => token.trim() !== "");
+    const tailored = words({
+      tailorings: [
+        "hyphen-joins-letters",
+        "at-hash-prefix",
+        "apostrophe-variants",
+        "decimal-comma-numbers",
+      ],
+    });
+    api.assertDeepEqual(tailored, [
+      "well-known",
+      "@user",
+      "#tag",
+      "a",
+      "@b",
+      "rock\u0060n",
+      "it\u00b4s",
+      "1\u00a0234,56",
+      "7\u202f890",
+    ]);
+    const plainWords = words({});
+    api.assertOk(plainWords.includes("well"));
+    api.assertOk(plainWords.includes("rock") && plainWords.includes("it"));
+    const plain = segmentWordsUAX29(text).provenance.configHash;
+    const forward = segmentWordsUAX29(text, {
+      tailorings: ["at-hash-prefix", "hyphen-joins-letters"],
+    }).provenance.configHash;
+    const reversed = segmentWordsUAX29(text, {
+      tailorings: ["hyphen-joins-letters", "at-hash-prefix", "at-hash-prefix"],
+    }).provenance.configHash;
+    api.assertOk(plain !== forward);
+    api.assertEqual(forward, reversed);
+    const frequencies = wordFrequencies(text, {
+      filter: "word-like",
+      tailorings: ["hyphen-joins-letters"],
+    });
+    api.assertOk(frequencies.items.some((item) => item.token === "well-known"));
+    const tokens = tokenizeForComparison("x-ray", {
+      tokenizer: "uax29-word",
+      canonicalKey: "raw",
+      wordTailorings: ["hyphen-joins-letters"],
+    });
+    api.assertEqual(tokens.length, 1);
+
+    const docs = [{ id: "a", text: "x-ray vision, x-ray eyes" }];
+    const indexHash = (wordTailorings?: Tailorings) =>
+      buildFingerprintIndex(docs, {
+        tokenizer: "uax29-word",
+        canonicalKey: "raw",
+        k: 2,
+        window: 2,
+        ...(wordTailorings ? { wordTailorings } : {}),
+      }).provenance.configHash;
+    api.assertOk(indexHash() !== indexHash(["hyphen-joins-letters"]));
+    api.assertEqual(indexHash(), indexHash([]));
+    const compareHash = (wordTailorings: Tailorings) =>
+      compareTextsDetailed("x-ray #tag", "x-ray #tag", {
+        tokenizer: "uax29-word",
+        canonicalKey: "raw",
+        diff: true,
+        wordTailorings,
+      }).provenance.configHash;
+    api.assertEqual(
+      compareHash(["hyphen-joins-letters", "at-hash-prefix"]),
+      compareHash(["at-hash-prefix", "hyphen-joins-letters", "at-hash-prefix"]),
+    );
+  });
+
+  api.test("at-hash-prefix streams like one-shot segmentation", async () => {
+    const { segmentWordsStream, segmentWordsUAX29, wordFrequencies, wordFrequencyBuilder } =
+      await importTextfacts();
+    const options: Parameters<typeof segmentWordsUAX29>[1] = { tailorings: ["at-hash-prefix"] };
+    for (const text of ["a#b c", "x@y #tag ##z 1#2 \uff03\u30ab"]) {
+      const streamed = [];
+      for await (const span of segmentWordsStream([...text], options)) streamed.push(span);
+      api.assertDeepEqual(streamed, [...segmentWordsUAX29(text, options)]);
+      const builder = wordFrequencyBuilder(options);
+      for (const char of text) builder.update(char);
+      api.assertDeepEqual(builder.finalize().items, wordFrequencies(text, options).items);
+    }
+  });
+
+  api.test("sentence suppressions keep abbreviations inside sentences", async () => {
+    const { analyzeCorpus, segmentSentencesStream, segmentSentencesUAX29, sliceBySpan } =
+      await importTextfacts();
+    const text = "Mr. Smith saw e.g. Rome. Then he left. UMr. Stop.";
+    const sentences = (suppressions?: string[]) =>
+      [...segmentSentencesUAX29(text, suppressions ? { suppressions } : {})].map((span) =>
+        sliceBySpan(text, span),
+      );
+    api.assertDeepEqual(sentences(["e.g.", "Mr."]), [
+      "Mr. Smith saw e.g. Rome. ",
+      "Then he left. ",
+      "UMr. ",
+      "Stop.",
+    ]);
+    api.assertOk(sentences().length > 4);
+    const plain = segmentSentencesUAX29(text).provenance.configHash;
+    const forward = segmentSentencesUAX29(text, { suppressions: ["Mr.", "e.g."] }).provenance;
+    const reversed = segmentSentencesUAX29(text, {
+      suppressions: ["e.g.", "Mr.", "Mr."],
+    }).provenance;
+    api.assertOk(plain !== forward.configHash);
+    api.assertEqual(forward.configHash, reversed.configHash);
+    let threw = false;
+    try {
+      segmentSentencesUAX29(text, { suppressions: [""] });
+    } catch (error) {
+      threw = error instanceof RangeError;
+    }
+    api.assertOk(threw);
+    const streamed: Array<{ startCU: number; endCU: number }> = [];
+    for await (const span of segmentSentencesStream([...text], { suppressions: ["Mr.", "e.g."] })) {
+      streamed.push(span);
+    }
+    api.assertDeepEqual(streamed, [
+      ...segmentSentencesUAX29(text, { suppressions: ["Mr.", "e.g."] }),
+    ]);
+    const docs = ["Mr. Smith left. Mr. Jones stayed.", "Mr. Brown left."];
+    const corpus = analyzeCorpus(docs, {
+      includeDuplicateSentences: true,
+      sentenceSuppressions: ["Mr."],
+    });
+    api.assertEqual(corpus.repetition?.duplicateSentences?.totalDuplicates, 0);
+    const unsuppressed = analyzeCorpus(docs, { includeDuplicateSentences: true });
+    api.assertOk((unsuppressed.repetition?.duplicateSentences?.totalDuplicates ?? 0) > 0);
+  });
+
+  api.test("break traces name the deciding rule and match segmentation", async () => {
+    const {
+      segmentGraphemes,
+      segmentSentencesUAX29,
+      segmentWordsUAX29,
+      traceGraphemeBreaks,
+      traceSentenceBreaks,
+      traceWordBreaks,
+    } = await importTextfacts();
+    const text = "Mr. Smith\u2019s \ud83c\uddfa\ud83c\uddf8\ud83c\uddeb flag.\r\n3.14 e\u0301! Ok?";
+    const cases = [
+      [traceGraphemeBreaks(text), segmentGraphemes(text)],
+      [traceWordBreaks(text), segmentWordsUAX29(text)],
+      [
+        traceSentenceBreaks(text, { suppressions: ["Mr."] }),
+        segmentSentencesUAX29(text, { suppressions: ["Mr."] }),
+      ],
+    ] as const;
+    for (const [trace, segments] of cases) {
+      api.assertEqual(trace.provenance.configHash, segments.provenance.configHash);
+      const traced = [...trace].filter((entry) => entry.isBreak).map((entry) => entry.posCU);
+      const expected = [...segments].map((span) => span.endCU).slice(0, -1);
+      api.assertDeepEqual(traced, expected);
+    }
+    const rule = (trace: Iterable<{ posCU: number; ruleId: string }>, posCU: number) =>
+      [...trace].find((entry) => entry.posCU === posCU)?.ruleId;
+    const crlf = text.indexOf("\n");
+    api.assertEqual(rule(traceGraphemeBreaks(text), crlf), "GB3");
+    api.assertEqual(rule(traceGraphemeBreaks(text), text.indexOf("\u0301")), "GB9");
+    api.assertEqual(rule(traceGraphemeBreaks(text), text.indexOf("\ud83c\uddf8")), "GB13");
+    api.assertEqual(rule(traceGraphemeBreaks(text), text.indexOf("\ud83c\uddeb")), "GB999");
+    api.assertEqual(rule(traceWordBreaks(text), text.indexOf("\u2019")), "WB6");
+    api.assertEqual(rule(traceWordBreaks(text), text.indexOf("14")), "WB11");
+    api.assertEqual(rule(traceSentenceBreaks(text), 4), "SB11");
+    api.assertEqual(rule(traceSentenceBreaks(text, { suppressions: ["Mr."] }), 4), "suppression");
+    const [first] = traceWordBreaks("ab");
+    api.assertDeepEqual(first, {
+      posCU: 1,
+      isBreak: false,
+      ruleId: "WB5",
+      propertyBefore: "ALetter",
+      propertyAfter: "ALetter",
+    });
+  });
+
+  api.test("word segment status follows ICU rule-status categories", async () => {
+    const {
+      isWordLikeToken,
+      segmentWordsWithStatus,
+      sliceBySpan,
+      surfaceProfile,
+      wordFrequencies,
+    } = await importTextfacts();
+    const text = "Hi 42 \u6f22\u5b57 \u30ab\u30bf \ud83d\ude00, snake_case\t!";
+    const segments = segmentWordsWithStatus(text);
+    const statuses = [...segments].map((segment) => [sliceBySpan(text, segment), segment.status]);
+    api.assertDeepEqual(statuses, [
+      ["Hi", "letter"],
+      [" ", "whitespace"],
+      ["42", "numeric"],
+      [" ", "whitespace"],
+      ["\u6f22", "ideographic"],
+      ["\u5b57", "ideographic"],
+      [" ", "whitespace"],
+      ["\u30ab\u30bf", "ideographic"],
+      [" ", "whitespace"],
+      ["\ud83d\ude00", "emoji"],
+      [",", "punctuation"],
+      [" ", "whitespace"],
+      ["snake_case", "letter"],
+      ["\t", "whitespace"],
+      ["!", "punctuation"],
+    ]);
+    api.assertEqual(
+      [...segments].filter((segment) => segment.isWordLike).length,
+      [...segments].filter((segment) => isWordLikeToken(sliceBySpan(text, segment))).length,
+    );
+    const frequencies = wordFrequencies(text, { filter: "word-like" });
+    api.assertEqual(frequencies.totalTokens, 6);
+    // Both spellings of the word-like filter hash the same rule revision.
+    api.assertEqual(
+      frequencies.provenance.configHash,
+      wordFrequencies(text, { filter: { base: "word-like" } }).provenance.configHash,
+    );
+    api.assertEqual(
+      surfaceProfile(text).provenance.configHash,
+      surfaceProfile(text, { wordFilter: "word-like" }).provenance.configHash,
+    );
+  });
+
+  api.test("auditHostIntl reports exact divergences from the host Intl APIs", async () => {
+    const { auditHostIntl } = await importTextfacts();
+    const plain = auditHostIntl("Hello world. Bye now!", { collationItems: ["b", "a", "c"] });
+    api.assertEqual(plain.unicodeVersion, "17.0.0");
+    api.assertOk(plain.normalization.every((audit) => audit.agrees));
+    api.assertEqual(plain.collation.items, 3);
+    if (plain.host.segmenter) {
+      api.assertOk(plain.segmentation.every((audit) => audit.compared && audit.agrees));
+    }
+    if (!plain.host.segmenter) return;
+    // ICU segments Han text with a dictionary; UAX #29 breaks between ideographs.
+    const text = "\u6771\u4eac\u90fd";
+    const word = auditHostIntl(text, { granularities: ["word"], forms: [] }).segmentation[0];
+    api.assertOk(word !== undefined && !word.agrees);
+    for (const region of word?.divergences ?? []) {
+      api.assertDeepEqual(
+        region.codePoints,
+        [...text.slice(region.startCU, region.endCU)].map((char) => char.codePointAt(0)),
+      );
+      api.assertEqual(region.textfacts[0]?.startCU, region.startCU);
+      api.assertEqual(region.host[region.host.length - 1]?.endCU, region.endCU);
+    }
+  });
+
+  api.test("segmentParagraphs splits on bidi paragraph separators or blank lines", async () => {
+    const { segmentParagraphs, sliceBySpan } = await importTextfacts();
+    const text = "One\r\nTwo\nthree\u0085\n \t\nFour\u2029Five";
+    const paragraphs = (separators?: "bidi" | "blank-lines") =>
+      [...segmentParagraphs(text, separators ? { separators } : {})].map((span) =>
+        sliceBySpan(text, span),
+      );
+    api.assertDeepEqual(paragraphs(), [
+      "One\r\n",
+      "Two\n",
+      "three\u0085",
+      "\n",
+      " \t\n",
+      "Four\u2029",
+      "Five",
+    ]);
+    api.assertDeepEqual(paragraphs("blank-lines"), [
+      "One\r\nTwo\nthree\u0085\n \t\n",
+      "Four\u2029",
+      "Five",
+    ]);
+    api.assertDeepEqual([...segmentParagraphs("")], []);
+    const provenance = segmentParagraphs(text).provenance;
+    api.assertEqual(provenance.algorithm.name, "UAX9.Paragraph");
+    api.assertOk(
+      provenance.configHash !==
+        segmentParagraphs(text, { separators: "blank-lines" }).provenance.configHash,
+    );
+  });
+
+  api.test("createLineIndex converts offsets to line/column in several units", async () => {
+    const { createLineIndex } = await importTextfacts();
+    const text = "ab\r\ne\u0301\u{1F600}x\u0085y\u2028";
+    const index = createLineIndex(text);
+    api.assertEqual(index.lineCount, 4);
+    api.assertDeepEqual(index.lineSpan(1), { startCU: 4, endCU: 9 });
+    api.assertDeepEqual(index.lineSpan(2), { startCU: 10, endCU: 11 });
+    api.assertDeepEqual(index.lineSpan(3), { startCU: 12, endCU: 12 });
+    const xOffset = text.indexOf("x");
+    api.assertDeepEqual(index.toLineColumn(xOffset), { line: 1, column: 4 });
+    api.assertDeepEqual(index.toLineColumn(xOffset, "codePoint"), { line: 1, column: 3 });
+    api.assertDeepEqual(index.toLineColumn(xOffset, "utf8"), { line: 1, column: 7 });
+    api.assertDeepEqual(index.toLineColumn(xOffset, "grapheme"), { line: 1, column: 2 });
+    // Inside a surrogate pair rounds down; past the line end clamps before the terminator.
+    api.assertDeepEqual(index.toLineColumn(7, "codePoint"), { line: 1, column: 2 });
+    api.assertDeepEqual(index.toLineColumn(3), { line: 0, column: 2 });
+    for (const unit of ["utf16", "codePoint", "utf8", "grapheme"] as const) {
+      api.assertEqual(index.fromLineColumn(index.toLineColumn(xOffset, unit), unit), xOffset);
+      api.assertEqual(index.fromLineColumn({ line: 1, column: 99 }, unit), 9);
+    }
+    const span = { startCU: 1, endCU: 10 };
+    api.assertDeepEqual(index.rangeToSpan(index.spanToRange(span, "utf8"), "utf8"), span);
+    api.assertEqual(index.provenance.units.lineBreak, "uax14-line-break");
+    api.assertEqual(index.provenance.units.byte, "utf8-byte");
+  });
+
+  api.test("grapheme ops never split clusters", async () => {
+    const { graphemeLength, reverseGraphemes, sliceGraphemes, truncateGraphemes } =
+      await importTextfacts();
+    const family = "\u{1F468}\u200d\u{1F469}\u200d\u{1F467}";
+    const text = `a${family}e\u0301क्षb`;
+    api.assertEqual(graphemeLength(text), 5);
+    api.assertEqual(sliceGraphemes(text, 1, 2), family);
+    api.assertEqual(sliceGraphemes(text, -2), "क्षb");
+    api.assertEqual(sliceGraphemes(text, 3, 1), "");
+    api.assertEqual(reverseGraphemes(text), `bक्षe\u0301${family}a`);
+    api.assertEqual(truncateGraphemes(text, 5), text);
+    api.assertEqual(truncateGraphemes(text, 3, { ellipsis: "…" }), `a${family}…`);
+    api.assertEqual(truncateGraphemes(text, 1, { ellipsis: "..." }), ".");
+    api.assertEqual(
+      truncateGraphemes("hello big world", 11, { ellipsis: "…", boundary: "word" }),
+      "hello big…",
+    );
+    api.assertEqual(truncateGraphemes("abcdef", 3, { boundary: "word" }), "abc");
+    api.assertEqual(truncateGraphemes("x\u2067abc\u2069 y", 3), "x\u2067a\u2069");
+    api.assertEqual(truncateGraphemes("\u202bab\u202c\u2068cd", 5), "\u202bab\u202c\u2068\u2069");
+    let threw = false;
+    try {
+      truncateGraphemes(text, -1);
+    } catch (error) {
+      threw = error instanceof RangeError;
+    }
+    api.assertOk(threw);
+  });
+
+  api.test("graphemeNgrams counts cluster n-grams with first spans", async () => {
+    const { canonicalGraphemeNgrams, graphemeNgrams } = await importTextfacts();
+    const text = "กินข้าว กินข้าว \u{1F44D}\u{1F3FD}\u{1F44D}\u{1F3FD}";
+    const bigrams = graphemeNgrams(text, { n: 2, minCount: 2 });
+    api.assertEqual(bigrams.totalNgrams, 13);
+    api.assertDeepEqual(
+      bigrams.items.map((item) => item.graphemes),
+      [
+        ["กิ", "น"],
+        ["ข้", "า"],
+        ["น", "ข้"],
+        ["ว", " "],
+        ["า", "ว"],
+      ],
+    );
+    api.assertDeepEqual(bigrams.items[0]?.firstSpan, { startCU: 0, endCU: 3 });
+    const top = graphemeNgrams(text, { n: 1, topK: 1 });
+    api.assertDeepEqual(top.items[0]?.graphemes, [" "]);
+    api.assertOk(top.truncated === true);
+    const folded = canonicalGraphemeNgrams("ABab", { n: 1, canonicalKey: "nfkcCaseFold" });
+    api.assertDeepEqual(
+      folded.items.map((item) => [item.graphemes[0], item.count, item.firstSpan.startCU]),
+      [
+        ["a", 2, 0],
+        ["b", 2, 1],
+      ],
+    );
+    api.assertEqual(folded.provenance.algorithm.name, "Facts.GraphemeNgrams");
+    api.assertDeepEqual(canonicalGraphemeNgrams(text, { n: 2 }), graphemeNgrams(text, { n: 2 }));
+  });
+
+  api.test("wordCollocations reports exact contingency tables", async () => {
+    const { wordCollocations } = await importTextfacts();
+    const text = "new york is big new york is old new car";
+    const byCount = wordCollocations(text, { windowSize: 2, filter: "word-like" });
+    api.assertEqual(byCount.totalPairs, 9);
+    api.assertDeepEqual(
+      byCount.items.slice(0, 2).map((item) => item.tokens),
+      [
+        ["is", "york"],
+        ["new", "york"],
+      ],
+    );
+    const newYork = byCount.items[1];
+    api.assertDeepEqual(newYork?.contingency, {
+      o11: 2,
+      o12: 3,
+      o21: 2,
+      o22: 2,
+      e11: { num: "20", den: "9" },
+      e12: { num: "25", den: "9" },
+      e21: { num: "16", den: "9" },
+      e22: { num: "20", den: "9" },
+    });
+    api.assertDeepEqual(newYork?.observedExpected, { num: "18", den: "20" });
+    api.assertEqual(newYork?.statistics, undefined);
+
+    const byPmi = wordCollocations(text, {
+      windowSize: 2,
+      filter: "word-like",
+      statistics: ["pmi", "logLikelihood"],
+      rankBy: "pmi",
+      topK: 1,
+    });
+    api.assertDeepEqual(byPmi.items[0]?.tokens, ["car", "new"]);
+    api.assertOk(byPmi.truncated === true);
+    api.assertEqual(byPmi.items[0]?.statistics?.pmi?.formula, "PMI = log2(O11 / E11)");
+    api.assertOk(
+      Math.abs((byPmi.items[0]?.statistics?.pmi?.value ?? 0) - Math.log2(9 / 5)) < 1e-12,
+    );
+    api.assertOk((byPmi.items[0]?.statistics?.logLikelihood?.value ?? 0) > 0);
+    api.assertOk(byPmi.provenance.configHash !== byCount.provenance.configHash);
+
+    const statistics: string[] = ["chiSquared"];
+    let threw = false;
+    try {
+      wordCollocations(text, { windowSize: 2, statistics } as never);
+    } catch (error) {
+      threw = error instanceof RangeError;
+    }
+    api.assertOk(threw);
+  });
+
+  api.test("concordance returns KWIC spans matched on canonical keys", async () => {
+    const { concordance, sliceBySpan, ucaConcordance } = await importTextfacts();
+    const text = "The cat sat. A CAT ran;  the ﬁne Cat\nslept.";
+    const kwic = (result: ReturnType<typeof concordance>) =>
+      result.lines.map((line) => [
+        sliceBySpan(text, line.left),
+        sliceBySpan(text, line.hit),
+        sliceBySpan(text, line.right),
+      ]);
+    const byPosition = concordance(text, "cat", { window: 2, canonicalKey: "nfkcCaseFold" });
+    api.assertDeepEqual(kwic(byPosition), [
+      ["The ", "cat", " sat."],
+      [". A ", "CAT", " ran;"],
+      ["the ﬁne ", "Cat", "\nslept."],
+    ]);
+    api.assertDeepEqual(
+      byPosition.lines.map((line) => line.tokenIndex),
+      [1, 5, 10],
+    );
+    api.assertEqual(concordance(text, "cat", { window: 2 }).lines.length, 1);
+    const byLeft = concordance(text, "cat", {
+      window: 2,
+      canonicalKey: "nfkcCaseFold",
+      sortBy: "left",
+    });
+    api.assertDeepEqual(
+      kwic(byLeft).map((line) => line[1]),
+      ["CAT", "cat", "Cat"],
+    );
+    const collated = ucaConcordance(text, "cat", {
+      window: 2,
+      canonicalKey: "nfkcCaseFold",
+      sortBy: "left",
+    });
+    api.assertDeepEqual(
+      kwic(collated).map((line) => line[1]),
+      ["CAT", "Cat", "cat"],
+    );
+    api.assertOk(collated.provenance.configHash !== byLeft.provenance.configHash);
+    const spelledOut = ucaConcordance(text, "cat", {
+      window: 2,
+      canonicalKey: "nfkcCaseFold",
+      sortBy: "left",
+      collation: { strength: 3, alternate: "non-ignorable", includeIdenticalLevel: true },
+    });
+    api.assertEqual(spelledOut.provenance.configHash, collated.provenance.configHash);
+    const phrase = concordance(text, "FINE   cat", { window: 0, canonicalKey: "nfkcCaseFold" });
+    api.assertDeepEqual(kwic(phrase), [["", "ﬁne Cat", ""]]);
+    api.assertOk(byLeft.provenance.configHash !== byPosition.provenance.configHash);
+    let threw = false;
+    try {
+      concordance(text, "  ");
+    } catch (error) {
+      threw = error instanceof RangeError;
+    }
+    api.assertOk(threw);
+  });
+
+  api.test("lexicalRichness reports exact spectrum and richness ratios", async () => {
+    const { lexicalRichness } = await importTextfacts();
+    const result = lexicalRichness("the cat and the dog and the bird.", { mattrWindow: 4 });
+    api.assertEqual(result.tokens, 8);
+    api.assertEqual(result.types, 5);
+    api.assertEqual(result.hapaxLegomena, 3);
+    api.assertEqual(result.disLegomena, 1);
+    api.assertDeepEqual(result.spectrum, [
+      { m: 1, types: 3 },
+      { m: 2, types: 1 },
+      { m: 3, types: 1 },
+    ]);
+    api.assertDeepEqual(result.measures.ttr.ratio, { num: "5", den: "8" });
+    api.assertDeepEqual(result.measures.yulesK.ratio, { num: "80000", den: "64" });
+    api.assertDeepEqual(result.measures.simpsonsD.ratio, { num: "8", den: "56" });
+    api.assertDeepEqual(result.measures.mattr.ratio, { num: "17", den: "20" });
+    api.assertEqual(result.measures.ttr.formula, "TTR = V / N");
+    api.assertOk(
+      result.provenance.configHash !==
+        lexicalRichness("the cat", { mattrWindow: 5 }).provenance.configHash,
+    );
+    const empty = lexicalRichness("");
+    api.assertDeepEqual(empty.spectrum, []);
+    api.assertDeepEqual(empty.measures.mattr.ratio, { num: "0", den: "1" });
+  });
+
+  api.test("word fact builders accept chunks, resume and merge shards", async () => {
+    const { wordFrequencyBuilder, wordNgramBuilder, wordNgrams, wordFrequencies } =
+      await importTextfacts();
+    const text = "It's 3.14 or 3,5 — can't\u{1F1FA}\u{1F1F8} say. It's fine.";
+    const chunks = ["It", "'s 3.", "14 or 3,5 — can", "'t\u{1F1FA}", "\u{1F1F8} say. It's fine."];
+    const ngrams = wordNgramBuilder({ n: 2, filter: "word-like" });
+    for (const chunk of chunks.slice(0, 3)) ngrams.update(chunk);
+    const resumed = wordNgramBuilder({ n: 2, filter: "word-like" }, ngrams.serialize());
+    for (const chunk of chunks.slice(3)) resumed.update(chunk);
+    api.assertDeepEqual(resumed.finalize(), wordNgrams(text, { n: 2, filter: "word-like" }));
+
+    const left = wordFrequencyBuilder({ filter: "word-like" });
+    left.update("a b a");
+    const right = wordFrequencyBuilder({ filter: "word-like" });
+    right.update("b c");
+    left.merge(right.serialize());
+    api.assertDeepEqual(left.finalize().items, [
+      { token: "a", count: 2 },
+      { token: "b", count: 2 },
+      { token: "c", count: 1 },
+    ]);
+    api.assertEqual(left.finalize().totalTokens, 5);
+    api.assertDeepEqual(
+      left.finalize().provenance,
+      wordFrequencies("", { filter: "word-like" }).provenance,
+    );
+    api.assertDeepEqual(JSON.parse(left.serialize()), left.toState());
+
+    let code = "";
+    try {
+      left.merge(wordFrequencyBuilder());
+    } catch (error) {
+      code = (error as { code?: string }).code ?? "";
+    }
+    api.assertEqual(code, "FACTS_INCOMPATIBLE_STATE");
+  });
+
+  api.test("wordFrequencies counts by canonical key with surface forms", async () => {
+    const { wordFrequencies, wordFrequencyBuilder, variantTokenKey } = await importTextfacts();
+    const folded = wordFrequencies("Straße STRASSE strasse Straße", {
+      filter: "word-like",
+      tokenKey: variantTokenKey("nfkcCaseFold"),
+    });
+    api.assertDeepEqual(folded.items, [
+      {
+        token: "Straße",
+        count: 4,
+        key: "strasse",
+        forms: [
+          { form: "Straße", count: 2 },
+          { form: "STRASSE", count: 1 },
+          { form: "strasse", count: 1 },
+        ],
+      },
+    ]);
+    const nfc = wordFrequencies("r\u00e9sum\u00e9 re\u0301sume\u0301", {
+      filter: "word-like",
+      tokenKey: variantTokenKey("nfc"),
+    });
+    api.assertEqual(nfc.items.length, 1);
+    api.assertEqual(nfc.items[0]?.key, "r\u00e9sum\u00e9");
+    api.assertEqual(nfc.items[0]?.forms?.length, 2);
+    const uca = wordFrequencies("résumé Resume resume", {
+      filter: "word-like",
+      tokenKey: variantTokenKey("ucaFold", { strength: 1 }),
+    });
+    api.assertEqual(uca.items.length, 1);
+    api.assertEqual(uca.items[0]?.count, 3);
+    const raw = wordFrequencies("a A", { filter: "word-like" });
+    api.assertEqual(raw.items[0]?.forms, undefined);
+    api.assertOk(
+      raw.provenance.configHash !==
+        wordFrequencies("a A", { filter: "word-like", tokenKey: variantTokenKey("nfkcCaseFold") })
+          .provenance.configHash,
+    );
+    const builder = wordFrequencyBuilder({
+      filter: "word-like",
+      tokenKey: variantTokenKey("nfkcCaseFold"),
+    });
+    builder.update("Straße STRA");
+    builder.update("SSE strasse Straße");
+    api.assertDeepEqual(builder.finalize(), folded);
+  });
+
+  api.test("word token filter sets", async () => {
+    const textfacts = await importTextfacts();
+    const text = "The cat and THE dog saw abc123 and 東京 cats.";
+    const stopped = textfacts.wordFrequencies(text, {
+      filter: {
+        base: "word-like",
+        tokenKey: textfacts.variantTokenKey("nfkcCaseFold"),
+        excludeTerms: ["the", "AND"],
+      },
+    });
+    api.assertDeepEqual(
+      stopped.items.map((item) => item.token),
+      ["abc123", "cat", "cats", "dog", "saw", "京", "東"],
+    );
+    const letters = textfacts.wordFrequencies(text, {
+      filter: { base: "word-like", includeCategories: ["L*"] },
+    });
+    api.assertOk(!letters.items.some((item) => item.token === "abc123"));
+    const noHan = textfacts.wordFrequencies(text, {
+      filter: { base: "word-like", excludeScripts: ["Han"] },
+    });
+    api.assertOk(!noHan.items.some((item) => item.token === "東"));
+    api.assertEqual(noHan.items.length, 8);
+
+    const hashOf = (terms: string[]) =>
+      textfacts.wordFrequencies(text, { filter: { excludeTerms: terms } }).provenance.configHash;
+    api.assertOk(hashOf(["the"]) !== hashOf(["and"]));
+    api.assertEqual(hashOf(["and", "the"]), hashOf(["the", "and", "the"]));
+    const packA = textfacts.analyzeText(text, { filter: { excludeTerms: ["the"] } });
+    const packB = textfacts.analyzeText(text, { filter: { excludeTerms: ["and"] } });
+    api.assertOk(packA.provenance.configHash !== packB.provenance.configHash);
+
+    let threw = false;
+    try {
+      textfacts.wordFrequencies(text, { filter: { includeCategories: ["Xx"] } });
+    } catch (error) {
+      threw = error instanceof RangeError;
+    }
+    api.assertOk(threw);
+  });
+
+  api.test("wordDispersion over sentences and documents", async () => {
+    const textfacts = await importTextfacts();
+    const text = "The cat sat. The dog ran far away. A cat and a cat met.";
+    const result = textfacts.wordDispersion(text);
+    api.assertEqual(result.partition, "uax29-sentence");
+    api.assertEqual(result.parts, 3);
+    api.assertEqual(result.totalTokens, 14);
+    const cat = result.items[0];
+    api.assertEqual(cat?.token, "cat");
+    api.assertEqual(cat?.range, 2);
+    api.assertDeepEqual(cat?.first, { part: 0, span: { startCU: 4, endCU: 7 } });
+    api.assertDeepEqual(cat?.last, { part: 2, span: { startCU: 47, endCU: 50 } });
+    api.assertDeepEqual(cat?.juillandOneMinusDSquared?.ratio, { num: "6", den: "18" });
+    api.assertDeepEqual(cat?.dp.ratio, { num: "30", den: "84" });
+
+    const single = textfacts.wordDispersion("cat cat").items[0];
+    api.assertEqual(single?.juillandOneMinusDSquared, undefined);
+    api.assertDeepEqual(single?.dp.ratio, { num: "0", den: "8" });
+
+    const skipped = textfacts.corpusWordDispersion(["", "?!", "a b", "b"]);
+    api.assertEqual(skipped.parts, 2);
+    const b = skipped.items.find((item) => item.token === "b");
+    api.assertEqual(b?.first.part, 0);
+    api.assertEqual(b?.last.part, 1);
+
+    const corpus = textfacts.analyzeCorpus(["a b a", "b c", ""], { dispersion: {} });
+    const words = corpus.dispersion?.words;
+    api.assertEqual(words?.partition, "document");
+    api.assertEqual(words?.parts, 2);
+    api.assertDeepEqual(
+      words?.items.map((item) => [item.token, item.range]),
+      [
+        ["a", 1],
+        ["b", 2],
+        ["c", 1],
+      ],
+    );
+    const plain = textfacts.analyzeText(text);
+    const withDispersion = textfacts.analyzeText(text, { dispersion: { topK: 2 } });
+    api.assertEqual(plain.dispersion, undefined);
+    api.assertEqual(withDispersion.dispersion?.words.truncated, true);
+    api.assertOk(plain.provenance.configHash !== withDispersion.provenance.configHash);
+  });
+
+  api.test("readabilityFacts exact character-based scores", async () => {
+    const textfacts = await importTextfacts();
+    const result = textfacts.readabilityFacts(
+      "The quick brown fox jumps. Extraordinary things happen! Ok.",
+    );
+    api.assertDeepEqual(result.counts, { characters: 48, words: 9, sentences: 3, longWords: 1 });
+    api.assertDeepEqual(result.scores.ari.ratio, { num: "14013", den: "2700" });
+    api.assertDeepEqual(result.scores.colemanLiau.ratio, { num: "5124", den: "900" });
+    api.assertDeepEqual(result.scores.lix.ratio, { num: "381", den: "27" });
+    api.assertDeepEqual(result.scores.lix.inputs.longWordPercent, { num: "100", den: "9" });
+
+    const decomposed = "e\u0301te\u0301";
+    api.assertEqual(textfacts.readabilityFacts(decomposed).counts.characters, 3);
+    const byCodePoint = textfacts.readabilityFacts(decomposed, { characterUnit: "codePoint" });
+    api.assertEqual(byCodePoint.counts.characters, 5);
+    api.assertOk(
+      byCodePoint.provenance.configHash !==
+        textfacts.readabilityFacts(decomposed).provenance.configHash,
+    );
+    api.assertDeepEqual(textfacts.readabilityFacts("").scores.ari.ratio, { num: "0", den: "1" });
+  });
+
+  api.test("numericFacts digit systems and values", async () => {
+    const textfacts = await importTextfacts();
+    const text = "1,234.56 1.234,56 1,234 12,34,567 007 ١٢٣٫٤ 1٢ １００ १२";
+    const result = textfacts.numericFacts(text);
+    api.assertDeepEqual(
+      result.tokens.map((token) => [token.systems.join("+"), token.value ?? null]),
+      [
+        ["ascii", "1234.56"],
+        ["ascii", "1234.56"],
+        ["ascii", null],
+        ["ascii", "1234567"],
+        ["ascii", "7"],
+        ["arabic-indic", "123.4"],
+        ["ascii+arabic-indic", null],
+        ["fullwidth", "100"],
+        ["devanagari", "12"],
+      ],
+    );
+    api.assertEqual(result.tokens[2]?.ambiguous, true);
+    api.assertEqual(result.tokens[6]?.mixedSystems, true);
+    api.assertEqual(result.mixedSystemTokens, 1);
+    api.assertDeepEqual(result.systems[0], { system: "ascii", tokens: 6 });
+    api.assertDeepEqual(textfacts.decimalDigitAt(0x06f5), {
+      value: 5,
+      system: "extended-arabic-indic",
+      zero: 0x06f0,
+    });
+    api.assertEqual(textfacts.decimalDigitAt(0x0041), undefined);
+  });
+
+  api.test("normalization quickCheck and firstUnnormalizedIndex", async () => {
+    const textfacts = await importTextfacts();
+    api.assertEqual(textfacts.quickCheck("plain ascii", "NFC"), "YES");
+    api.assertEqual(textfacts.quickCheck("e\u0301", "NFC"), "MAYBE");
+    api.assertEqual(textfacts.quickCheck("e\u0301", "NFD"), "YES");
+    api.assertEqual(textfacts.quickCheck("\u00e9", "NFD"), "NO");
+    api.assertEqual(textfacts.quickCheck("a\u0323\u0301", "NFD"), "YES");
+    api.assertEqual(textfacts.quickCheck("a\u0301\u0323", "NFD"), "NO");
+    api.assertEqual(textfacts.quickCheck("\ufb01", "NFKC"), "NO");
+    // U+16D68 composes backwards through its decomposition (U+16D67 U+16D67).
+    api.assertEqual(textfacts.quickCheck("\u{16d63}\u{16d68}", "NFC"), "MAYBE");
+
+    api.assertEqual(textfacts.firstUnnormalizedIndex("caf\u00e9 ok", "NFC"), -1);
+    api.assertEqual(textfacts.firstUnnormalizedIndex("cafe\u0301 ok", "NFC"), 3);
+    api.assertEqual(textfacts.firstUnnormalizedIndex("x\u0301 ok", "NFC"), -1);
+    // The segment holding U+2126 starts at the preceding starter.
+    api.assertEqual(textfacts.firstUnnormalizedIndex("ab\u2126", "NFC"), 1);
+    const text = "abc\u1100\u1161\u11a8 z";
+    const index = textfacts.firstUnnormalizedIndex(text, "NFC");
+    api.assertEqual(index, 3);
+    api.assertEqual(
+      text.slice(0, index) + textfacts.normalize(text.slice(index), "NFC"),
+      textfacts.normalize(text, "NFC"),
+    );
+    api.assertEqual(textfacts.isNormalized("cafe\u0301", "NFD"), true);
+    api.assertEqual(textfacts.isNormalized("cafe\u0301", "NFC"), false);
+  });
+
+  api.test(
+    "normalizeWithMap projects spans through reordering and Hangul composition",
+    async () => {
+      const { normalizeWithMap } = await importTextfacts();
+      const input = "xD\u0307\u0323y\u1100\u1161\u11a8";
+      const mapped = normalizeWithMap(input, "NFC");
+      api.assertEqual(mapped.text, "x\u1e0c\u0307y\uac01");
+      api.assertDeepEqual(mapped.segments, [
+        { input: { startCU: 0, endCU: 1 }, output: { startCU: 0, endCU: 1 }, identity: true },
+        { input: { startCU: 1, endCU: 4 }, output: { startCU: 1, endCU: 3 }, identity: false },
+        { input: { startCU: 4, endCU: 5 }, output: { startCU: 3, endCU: 4 }, identity: true },
+        { input: { startCU: 5, endCU: 8 }, output: { startCU: 4, endCU: 5 }, identity: false },
+      ]);
+      api.assertDeepEqual(mapped.toInputSpan({ startCU: 2, endCU: 3 }), { startCU: 1, endCU: 4 });
+      api.assertDeepEqual(mapped.toInputSpan({ startCU: 4, endCU: 5 }), { startCU: 5, endCU: 8 });
+      api.assertDeepEqual(mapped.toOutputSpan({ startCU: 0, endCU: 2 }), { startCU: 0, endCU: 3 });
+      api.assertDeepEqual(mapped.toOutputSpan({ startCU: 6, endCU: 6 }), { startCU: 4, endCU: 5 });
+      api.assertDeepEqual(mapped.toOutputSpan({ startCU: 5, endCU: 5 }), { startCU: 4, endCU: 4 });
+      const nfd = normalizeWithMap("\u00e9", "NFD");
+      api.assertEqual(nfd.text, "e\u0301");
+      api.assertDeepEqual(nfd.toInputSpan({ startCU: 1, endCU: 2 }), { startCU: 0, endCU: 1 });
+    },
+  );
+
+  api.test("isFCD, FCC normalization and the FCD collation fast path", async () => {
+    const textfacts = await importTextfacts();
+    api.assertEqual(textfacts.isFCD("caf\u00e9"), true);
+    api.assertEqual(textfacts.isFCD("\u1ea1\u0301"), true);
+    api.assertEqual(textfacts.isFCD("\u1e0a\u031b"), false);
+    api.assertEqual(textfacts.normalize("\u1e0a\u031b", "FCC"), "D\u031b\u0307");
+    api.assertEqual(textfacts.normalize("\u1e0a\u031b", "NFC"), "\u1e0a\u031b");
+    api.assertEqual(textfacts.normalize("e\u0301\u1100\u1161", "FCC"), "\u00e9\uac00");
+    api.assertEqual(textfacts.quickCheck("\u1e0a\u031b", "FCC"), "NO");
+    api.assertEqual(textfacts.quickCheck("D\u031b\u0307", "FCC"), "MAYBE");
+    api.assertEqual(textfacts.isNormalized("D\u031b\u0307", "FCC"), true);
+    api.assertEqual(textfacts.isNormalized("D\u031b\u0307", "NFC"), false);
+    for (const text of ["caf\u00e9", "\u00c5ngstr\u00f6m", "\u{1611e}\u{16123}", "\uac00\u0301"]) {
+      const nfd = textfacts.normalize(text, "NFD");
+      for (const options of [{}, { includeIdenticalLevel: false }]) {
+        api.assertDeepEqual(
+          Array.from(textfacts.ucaSortKeyBytes(text, options)),
+          Array.from(textfacts.ucaSortKeyBytes(nfd, { ...options, normalization: "none" })),
+        );
+      }
+    }
+  });
+
+  api.test("reportNormalizationChanges lists altered spans with reasons", async () => {
+    const { reportNormalizationChanges } = await importTextfacts();
+    const report = reportNormalizationChanges("x\ufb01\u00bd \u1e9b\u0323 \u212b", "NFKC");
+    api.assertEqual(report.output, "xfi1\u20442 \u1e69 \u00c5");
+    api.assertDeepEqual(
+      report.changes.map((change) => [change.input, change.before, change.after]),
+      [
+        [{ startCU: 1, endCU: 2 }, [0xfb01], [0x66, 0x69]],
+        [{ startCU: 2, endCU: 3 }, [0xbd], [0x31, 0x2044, 0x32]],
+        [{ startCU: 4, endCU: 6 }, [0x1e9b, 0x323], [0x1e69]],
+        [{ startCU: 7, endCU: 8 }, [0x212b], [0xc5]],
+      ],
+    );
+    api.assertDeepEqual(report.changes[1]?.reasons, [
+      { kind: "compatibility-decomposition", codePoint: 0xbd, tag: "<fraction>" },
+    ]);
+    api.assertDeepEqual(report.changes[2]?.reasons, [
+      { kind: "canonical-decomposition", codePoint: 0x1e9b },
+      { kind: "compatibility-decomposition", codePoint: 0x17f, tag: "<compat>" },
+      { kind: "reordering" },
+      { kind: "composition", codePoint: 0x1e69 },
+    ]);
+    api.assertEqual(reportNormalizationChanges("\u212b", "NFD").changes[0]?.reasons.length, 2);
+    api.assertEqual(reportNormalizationChanges("caf\u00e9", "NFC").changes.length, 0);
+  });
+
+  api.test("word fact builders decode code points split across byte chunks", async () => {
+    const { wordFrequencies, wordFrequencyBuilder } = await importTextfacts();
+    const bytes = new TextEncoder().encode("caf\u00e9 ol\u00e9");
+    const builder = wordFrequencyBuilder();
+    builder.update(bytes.subarray(0, 4));
+    let threw = false;
+    try {
+      builder.toState();
+    } catch (error) {
+      threw = error instanceof RangeError;
+    }
+    api.assertOk(threw);
+    builder.update(bytes.subarray(4));
+    api.assertDeepEqual(builder.finalize().items, wordFrequencies("caf\u00e9 ol\u00e9").items);
+  });
+
   api.test("wordFrequencies deterministic order", async () => {
     const { wordFrequencies } = await importTextfacts();
     const result = wordFrequencies("b a a", { filter: "word-like" });
@@ -269,8 +1292,8 @@ export function registerTests(api: TestApi): void {
     const canonical = jcsCanonicalize(payload);
     const fnv = fnv1a32(canonical);
     const sha = await sha256Hex(canonical);
-    api.assertEqual(fnv, "fnv1a32:9aa0ffd6");
-    api.assertEqual(sha, "sha256:ceb289211ec380ea930e0e901a30b4c14a22222da07a1b09b2ef8223f5c77ae3");
+    api.assertEqual(fnv, "fnv1a32:c1faf8e5");
+    api.assertEqual(sha, "sha256:3cb8c144fcc54a7330857e9d0d76489ba16f59545a17f578fdaa31b03d0c81f4");
   });
 
   api.test("UAX29 GraphemeBreakTest", async () => {
@@ -90,11 +90,33 @@ function parseCompositionExclusions(text) {
   return exclusions;
 }
 
+// Decomposition_Type tags of UnicodeData.txt; the index is the generated DECOMP_TYPE value.
+const DECOMPOSITION_TYPES = [
+  "canonical",
+  "font",
+  "noBreak",
+  "initial",
+  "medial",
+  "final",
+  "isolated",
+  "circle",
+  "super",
+  "sub",
+  "vertical",
+  "wide",
+  "narrow",
+  "small",
+  "square",
+  "fraction",
+  "compat",
+];
+
 function parseUnicodeData(text, exclusions) {
   const decompCodepoints = [];
   const decompIndex = [];
   const decompData = [];
   const decompCompat = [];
+  const decompType = [];
   const composeMap = new Map();
 
   const lines = text.split(/\r?\n/);
@@ -109,8 +131,12 @@ function parseUnicodeData(text, exclusions) {
     let mapping = decomp.trim();
     if (!mapping) continue;
     let compat = false;
+    let type = 0;
     if (mapping.startsWith("<")) {
       compat = true;
+      const tag = mapping.slice(1, mapping.indexOf(">"));
+      type = DECOMPOSITION_TYPES.indexOf(tag);
+      if (type <= 0) throw new Error(`Unknown decomposition type <${tag}> for ${fields[0]}`);
       mapping = mapping.replace(/^<[^>]+>\s*/, "");
     }
     if (!mapping) continue;
@@ -123,6 +149,7 @@ function parseUnicodeData(text, exclusions) {
     decompCodepoints.push(cp);
     decompIndex.push(decompData.length);
     decompCompat.push(compat ? 1 : 0);
+    decompType.push(type);
     decompData.push(...seq);
     if (!compat && seq.length === 2 && !exclusions.has(cp)) {
       const starter = seq[0];
@@ -136,7 +163,7 @@ function parseUnicodeData(text, exclusions) {
     }
   }
   decompIndex.push(decompData.length);
-  return { decompCodepoints, decompIndex, decompData, decompCompat, composeMap };
+  return { decompCodepoints, decompIndex, decompData, decompCompat, decompType, composeMap };
 }
 
 function buildComposeTables(composeMap) {
@@ -154,6 +181,104 @@ function buildComposeTables(composeMap) {
   return { starters, composeIndex, composeData };
 }
 
+// Quick-check flags; NFC and NFKC may be "maybe" (the code point can compose backwards).
+const QC_NFD_NO = 1;
+const QC_NFKD_NO = 2;
+const QC_NFC_NO = 4;
+const QC_NFC_MAYBE = 8;
+const QC_NFKC_NO = 16;
+const QC_NFKC_MAYBE = 32;
+const HANGUL_S_BASE = 0xac00;
+const HANGUL_S_COUNT = 11172;
+const HANGUL_TRAILING = [
+  [0x1161, 0x1175],
+  [0x11a8, 0x11c2],
+];
+
+function lookupCcc(ranges, cp) {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const [start, end, ccc] = ranges[mid];
+    if (cp < start) {
+      hi = mid - 1;
+    } else if (cp > end) {
+      lo = mid + 1;
+    } else {
+      return ccc;
+    }
+  }
+  return 0;
+}
+
+// Derives NFD_QC, NFKD_QC, NFC_QC and NFKC_QC as defined in UAX #15 section 9:
+// NFC_QC=No is Full_Composition_Exclusion (listed exclusions, singletons and non-starter
+// decompositions); NFC_QC=Maybe marks second code points of primary composites and
+// composites whose decomposition starts with one (e.g. U+16123 after U+1611E).
+function buildQuickCheckRanges(data, cccRanges, exclusions) {
+  const decompositions = new Map();
+  data.decompCodepoints.forEach((cp, index) => {
+    const seq = data.decompData.slice(data.decompIndex[index], data.decompIndex[index + 1]);
+    decompositions.set(cp, { compat: data.decompCompat[index] === 1, seq });
+  });
+  const fullDecomposition = (cp, compat) => {
+    const entry = decompositions.get(cp);
+    if (!entry || (entry.compat && !compat)) return [cp];
+    return entry.seq.flatMap((next) => fullDecomposition(next, compat));
+  };
+  const flags = new Map();
+  const add = (cp, flag) => flags.set(cp, (flags.get(cp) ?? 0) | flag);
+  const trailing = new Set();
+  const composites = [];
+  for (const [cp, entry] of decompositions) {
+    add(cp, QC_NFKD_NO);
+    if (entry.compat) {
+      add(cp, QC_NFKC_NO);
+      continue;
+    }
+    add(cp, QC_NFD_NO);
+    const excluded =
+      exclusions.has(cp) ||
+      entry.seq.length === 1 ||
+      lookupCcc(cccRanges, cp) !== 0 ||
+      lookupCcc(cccRanges, entry.seq[0]) !== 0;
+    if (excluded) {
+      add(cp, QC_NFC_NO | QC_NFKC_NO);
+    } else {
+      composites.push(cp);
+      if (entry.seq.length === 2) trailing.add(entry.seq[1]);
+    }
+    if (fullDecomposition(cp, true).join(" ") !== fullDecomposition(cp, false).join(" ")) {
+      add(cp, QC_NFKC_NO);
+    }
+  }
+  for (let cp = HANGUL_S_BASE; cp < HANGUL_S_BASE + HANGUL_S_COUNT; cp += 1) {
+    add(cp, QC_NFD_NO | QC_NFKD_NO);
+  }
+  for (const [start, end] of HANGUL_TRAILING) {
+    for (let cp = start; cp <= end; cp += 1) trailing.add(cp);
+  }
+  const combinesBack = composites.filter((cp) => trailing.has(fullDecomposition(cp, false)[0]));
+  for (const cp of combinesBack) trailing.add(cp);
+  for (const cp of trailing) {
+    const current = flags.get(cp) ?? 0;
+    if (!(current & QC_NFC_NO)) add(cp, QC_NFC_MAYBE);
+    if (!(current & QC_NFKC_NO)) add(cp, QC_NFKC_MAYBE);
+  }
+  const ranges = [];
+  for (const cp of Array.from(flags.keys()).sort((a, b) => a - b)) {
+    const value = flags.get(cp);
+    const last = ranges[ranges.length - 1];
+    if (last && last[2] === value && last[1] + 1 === cp) {
+      last[1] = cp;
+    } else {
+      ranges.push([cp, cp, value]);
+    }
+  }
+  return ranges;
+}
+
 function formatArray(values, perLine = 12) {
   const rows = [];
   for (let i = 0; i < values.length; i += perLine) {
@@ -171,7 +296,7 @@ async function writeCccTable(ranges) {
 
 async function writeDecompositionTables(data) {
   await ensureDir(OUT_DIR);
-  const output = `// Generated from Unicode ${UNICODE_VERSION} UnicodeData.txt\n// DO NOT EDIT MANUALLY.\n\nexport const DECOMP_CODEPOINTS = new Int32Array([\n${formatArray(data.decompCodepoints)}\n]);\n\nexport const DECOMP_INDEX = new Int32Array([\n${formatArray(data.decompIndex)}\n]);\n\nexport const DECOMP_DATA = new Int32Array([\n${formatArray(data.decompData)}\n]);\n\nexport const DECOMP_COMPAT = new Uint8Array([\n${formatArray(data.decompCompat)}\n]);\n`;
+  const output = `// Generated from Unicode ${UNICODE_VERSION} UnicodeData.txt\n// DO NOT EDIT MANUALLY.\n\nexport const DECOMP_CODEPOINTS = new Int32Array([\n${formatArray(data.decompCodepoints)}\n]);\n\nexport const DECOMP_INDEX = new Int32Array([\n${formatArray(data.decompIndex)}\n]);\n\nexport const DECOMP_DATA = new Int32Array([\n${formatArray(data.decompData)}\n]);\n\nexport const DECOMP_COMPAT = new Uint8Array([\n${formatArray(data.decompCompat)}\n]);\n\n// Indices into DECOMP_TYPE_NAMES; 0 is canonical.\nexport const DECOMP_TYPE_NAMES = [\n${DECOMPOSITION_TYPES.map((name) => `  "${name}",`).join("\n")}\n] as const;\n\nexport const DECOMP_TYPE = new Uint8Array([\n${formatArray(data.decompType)}\n]);\n`;
   await fs.writeFile(path.join(OUT_DIR, "decomp.ts"), output, "utf8");
 }
 
@@ -181,6 +306,13 @@ async function writeCompositionTables(tables) {
   await fs.writeFile(path.join(OUT_DIR, "composition.ts"), output, "utf8");
 }
 
+async function writeQuickCheckTable(ranges) {
+  await ensureDir(OUT_DIR);
+  const flat = ranges.flat();
+  const output = `// Generated from Unicode ${UNICODE_VERSION} UnicodeData.txt + CompositionExclusions.txt + DerivedCombiningClass.txt\n// Quick-check flags: 1 NFD_NO, 2 NFKD_NO, 4 NFC_NO, 8 NFC_MAYBE, 16 NFKC_NO, 32 NFKC_MAYBE.\n// DO NOT EDIT MANUALLY.\n\nexport const QC_RANGES = new Int32Array([\n${formatArray(flat)}\n]);\n`;
+  await fs.writeFile(path.join(OUT_DIR, "quick-check.ts"), output, "utf8");
+}
+
 async function main() {
   const [combiningText, unicodeDataText, exclusionsText] = await Promise.all([
     fetchFile(FILES.combiningClass),
@@ -194,6 +326,7 @@ async function main() {
   await writeCccTable(ranges);
   await writeDecompositionTables(data);
   await writeCompositionTables(compositionTables);
+  await writeQuickCheckTable(buildQuickCheckRanges(data, ranges, exclusions));
 }
 
 main().catch((error) => {
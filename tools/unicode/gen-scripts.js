@@ -7,6 +7,8 @@ const ROOT = process.cwd();
 const SOURCE_DIR = path.join(ROOT, "specs", "unicode", UNICODE_VERSION, "ucd");
 const OUT_DIR = path.join(ROOT, "src", "unicode", "generated");
 
+const IDEOGRAPHIC_SCRIPTS = new Set(["Han", "Hiragana", "Katakana"]);
+
 const FILES = {
   scripts: "Scripts.txt",
   scriptExtensions: "ScriptExtensions.txt",
@@ -150,6 +152,16 @@ function generateScriptTable(scriptNames, scriptRanges, extRanges, extSets) {
   return `// Generated from Unicode ${UNICODE_VERSION} Scripts.txt and ScriptExtensions.txt.\n// DO NOT EDIT MANUALLY.\n\nexport const SCRIPT_NAMES = ${JSON.stringify(scriptNames)} as const;\n\nexport const SCRIPT_IDS = {\n${idsEntries}\n} as const;\n\nexport enum Script {\n${enumEntries}\n}\n\nexport const SCRIPT_RANGES = new Int32Array([\n${formatArray(scriptFlat)}\n]);\n\nexport const SCRIPT_EXT_RANGES = new Int32Array([\n${formatArray(extFlat)}\n]);\n\nexport const SCRIPT_EXT_SETS = [\n${setsText}\n] as const;\n`;
 }
 
+/** Han, Hiragana and Katakana ranges, for word-status checks that must not carry the full script table. */
+function generateIdeographicTable(ranges) {
+  const ideographic = mergeRanges(
+    ranges
+      .filter(([, , script]) => IDEOGRAPHIC_SCRIPTS.has(script))
+      .map(([start, end]) => [start, end, 1]),
+  );
+  return `// Generated from Unicode ${UNICODE_VERSION} Scripts.txt (Han, Hiragana, Katakana).\n// DO NOT EDIT MANUALLY.\n\nexport const IDEOGRAPHIC_SCRIPT_RANGES = new Int32Array([\n${formatArray(ideographic.flat())}\n]);\n`;
+}
+
 async function main() {
   const scriptsText = await readSourceFile(FILES.scripts);
   const aliasText = await readSourceFile(FILES.propertyValueAliases);
@@ -168,6 +180,11 @@ async function main() {
   await ensureDir(OUT_DIR);
   const output = generateScriptTable(list, scriptRanges, extRanges, extSets);
   await fs.writeFile(path.join(OUT_DIR, "script.ts"), output, "utf8");
+  await fs.writeFile(
+    path.join(OUT_DIR, "script-ideographic.ts"),
+    generateIdeographicTable(ranges),
+    "utf8",
+  );
 }
 
 main().catch((error) => {